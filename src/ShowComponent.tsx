@@ -2,7 +2,24 @@ import JsonView from '@uiw/react-json-view';
 import type React from 'react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from './components/ui/popover';
-import { configureSourceRoot, resolveLocation } from './lib/source-location-resolver';
+import { type ComponentLocation, resolveComponentLocation } from './lib/component-location';
+import { fileUrlToPath, isWindowsAbsolutePath, normalizeFsPath, toEditorUrl } from './lib/fs-path';
+import { type HotContext, subscribeToHmr } from './lib/hmr';
+import { type PathMapping, applyPathMappings, configurePathMappings } from './lib/path-mappings';
+import { configurePersistentCache } from './lib/persistent-cache';
+import { isAbortError } from './lib/request-limits';
+import { type ResolveFailure, toResolveFailure } from './lib/resolve-error';
+import { type RscEndpointConfig, configureRscEndpoint } from './lib/rsc-endpoint';
+import {
+  type ResolveLocationOptions,
+  type ResolvedSourceInfo,
+  clearCaches,
+  configureSourceRoot,
+  detectSourceRoot,
+  resolveLocations,
+  resolveOriginalName,
+} from './lib/source-location-resolver';
+import { parseStackFrame } from './lib/stack-frame-parser';
 
 /* ── Inline SVG icons (replaces lucide-react to avoid 43 MB dependency) ── */
 
@@ -54,8 +71,16 @@ type Fiber = {
 
 type ClickToNodeInfo = {
   componentName: string;
+  /** `name` of the function implementing the component — minified in production builds. */
+  generatedName: string | undefined;
   /** Raw stack-trace frame line, e.g. "at LevelD (http://…:18:26)" */
   stackFrame: string | undefined;
+  /**
+   * `stackFrame` followed by the frames of the component's owners, closest
+   * first — fallbacks for when `stackFrame` maps into an ignore-listed
+   * (third-party) source.
+   */
+  stackFrames: (string | undefined)[];
   /** The React fiber node — useful for debugging stack resolution issues. */
   fiber: Fiber;
   props: Record<string, unknown> | undefined;
@@ -72,8 +97,27 @@ export interface ComponentHandle {
    * Lazily resolve the original source location via source maps.
    * The result is cached — subsequent calls return instantly.
    * Only performs work (network fetch + source-map parse) when called.
+   *
+   * Calls made in the same tick (e.g. `Promise.all` over several handles)
+   * are resolved in one batch (one fetch per chunk); handles that are never
+   * asked for are never resolved.
    */
   resolveSource: () => Promise<{ source: string; line: number; column: number } | null>;
+  /**
+   * Lazily checks whether the component's own stack frame maps into a
+   * source the bundler ignore-listed (`ignoreList` / `x_google_ignoreList`
+   * in the source map) — typically a component rendered from library code.
+   * `resolveSource()` then falls back to the closest owner component whose
+   * frame is outside ignore-listed sources.  Shares its resolution with `resolveSource()`.
+   */
+  isIgnoreListed: () => Promise<boolean>;
+  /**
+   * Lazily resolves the component's original name through the source map's
+   * `names` — for minified builds, where `componentName` is e.g. `t`.
+   * Resolves to `null` when the name can't be recovered (or wasn't minified).
+   * Cached like `resolveSource()`.
+   */
+  originalName: () => Promise<string | null>;
 }
 
 export interface NavigationEvent {
@@ -89,6 +133,11 @@ export interface NavigationEvent {
   componentName?: string;
 }
 
+export interface ResolveErrorEvent extends ResolveFailure {
+  /** The component whose location could not be resolved */
+  componentName?: string;
+}
+
 export interface ShowComponentProps {
   /**
    * Called when the user triggers a navigation (Alt+Click or selecting a
@@ -98,15 +147,42 @@ export interface ShowComponentProps {
    */
   onNavigate?: (event: NavigationEvent) => void;
 
+  /**
+   * Called when a navigation fails because the component's location could
+   * not be resolved — e.g. to show a toast.  `reason` says why
+   * (`no-stack-frame`, `fetch-failed`, `no-source-map`, …); `url` and
+   * `status` point at the failing request where there was one.  Also called,
+   * with the clicked component's name, when `getClickTarget` throws.  Not
+   * called for navigations superseded by a newer click.
+   */
+  onResolveError?: (event: ResolveErrorEvent) => void;
+
   /**
    * Absolute filesystem path to the project root.  Used to convert
    * URL-relative paths (like `/src/components/Foo.tsx`) into absolute
    * paths the editor can open (like `/Users/me/project/src/components/Foo.tsx`).
    *
    * Can also be set globally via `window.__SHOW_COMPONENT_SOURCE_ROOT__`.
+   * When neither is set, the root is discovered from the dev server where
+   * possible (see `detectSourceRoot()`).
    */
   sourceRoot?: string;
 
+  /**
+   * Ordered rewrite rules applied to resolved source paths right before the
+   * editor is opened — for dev servers running in Docker, a devcontainer or
+   * on a remote host, where source maps contain paths like `/app/src/…`.
+   *
+   * A string `from` is a path prefix; a RegExp `from` is applied with
+   * `path.replace(from, to)`.  The first matching rule wins.
+   *
+   * Can also be set via `configurePathMappings()`.
+   *
+   * @example
+   * <ShowComponent pathMappings={[{ from: '/app', to: '/home/me/work/project' }]} />
+   */
+  pathMappings?: PathMapping[];
+
   /**
    * URL scheme used for editor navigation (the part before `://`).
    *
@@ -138,6 +214,54 @@ export interface ShowComponentProps {
     chain: ComponentHandle[]
   ) => number | null | undefined | Promise<number | null | undefined>;
 
+  /**
+   * When `true`, source maps and resolved locations are also cached in
+   * IndexedDB so the first click after a full page reload doesn't have to
+   * re-download every source map.  Entries are keyed by chunk URL plus a
+   * content fingerprint (ETag or hash), so rebuilt chunks are never served
+   * from a stale entry.
+   *
+   * @default false
+   */
+  persistentCache?: boolean;
+
+  /**
+   * Server-side symbolication endpoint for React Server Component frames of
+   * frameworks other than Next.js (Waku, Parcel, React Router, …).  Use
+   * `fileSourceMapEndpoint()` with the middleware from
+   * `show-component/middleware`, or describe your own endpoint.
+   *
+   * Can also be set via `configureRscEndpoint()`.
+   *
+   * @example
+   * <ShowComponent rscEndpoint={fileSourceMapEndpoint()} />
+   */
+  rscEndpoint?: RscEndpointConfig;
+
+  /**
+   * Timeout in milliseconds for each network request made while resolving a
+   * click (chunk, source map, dev server endpoints).  A request that hangs —
+   * behind a slow proxy or while the dev server rebuilds — fails after this
+   * long instead of blocking navigation forever.
+   *
+   * Independently of the timeout, a new Alt + Right-Click cancels the
+   * previous pending navigation, so a stale one never opens the editor late.
+   *
+   * @default 10000
+   */
+  resolveTimeout?: number;
+
+  /**
+   * The bundler's HMR API, so cached source maps of hot-updated files are
+   * evicted after each update.  Pass `import.meta.hot` in Vite apps — a
+   * pre-bundled dependency has no access to it.  webpack's `module.hot` is
+   * picked up automatically.
+   *
+   * @example
+   * <ShowComponent hot={import.meta.hot} />
+   */
+  hot?: HotContext;
+
   /**
    * When `true`, logs a detailed debug trace for every source-map
    * resolution step, the resolved result, and the final editor URL to
@@ -164,21 +288,15 @@ function openInEditor(
   editorScheme = 'cursor',
   debug?: boolean
 ): void {
-  let cleanPath = source.replace(/^file:\/\//, '');
-  cleanPath = decodeURIComponent(cleanPath);
-  // Ensure the path starts with / so the protocol URL is well-formed
-  // (e.g. cursor://file/… not cursor://filesrc/…)
-  if (!cleanPath.startsWith('/')) {
+  let cleanPath = source.startsWith('file://') ? fileUrlToPath(source) : source;
+  cleanPath = normalizeFsPath(decodeURIComponent(cleanPath));
+  // Ensure URL-relative paths start with / so the protocol URL is well-formed
+  // (e.g. cursor://file/… not cursor://filesrc/…).  Drive letter paths are
+  // handled by toEditorUrl (cursor://file/C:/…).
+  if (!cleanPath.startsWith('/') && !isWindowsAbsolutePath(cleanPath)) {
     cleanPath = `/${cleanPath}`;
   }
-  // Encode each path segment so special characters (parentheses, brackets,
-  // spaces, #, etc.) produce a well-formed protocol URL while preserving
-  // the '/' separators.
-  const encodedPath = cleanPath
-    .split('/')
-    .map((segment) => encodeURIComponent(segment))
-    .join('/');
-  const url = `${editorScheme}://file${encodedPath}:${line}:${column}`;
+  const url = toEditorUrl(editorScheme, cleanPath, line, column);
 
   if (debug) {
     console.log('[show-component] openInEditor:', {
@@ -293,6 +411,19 @@ function getComponentNameFromType(type: unknown): string {
   }
 }
 
+/** The `name` of the function implementing a component, unwrapping `memo` / `forwardRef`. */
+function getGeneratedName(type: unknown): string | undefined {
+  if (typeof type === 'function') return (type as { name?: string }).name || undefined;
+  if (type && typeof type === 'object') {
+    const obj = type as Record<string, unknown>;
+    if (obj.$$typeof && obj.render) return getGeneratedName(obj.render);
+    if (obj.$$typeof && obj.type) return getGeneratedName(obj.type);
+  }
+  return undefined;
+}
+
+const DEFAULT_RESOLVE_TIMEOUT = 10_000;
+
 // Which meaningful stack frame to use (0-based, after filtering React internals).
 // 0 = first non-internal frame (usually jsxDEV), 1 = the actual user component.
 const STACK_FRAME_INDEX = 1;
@@ -318,7 +449,7 @@ function isUnresolvableFrame(line: string): boolean {
     return true;
 
   // Native built-ins (e.g. Promise.all) that have no source-mappable URL
-  if (line.includes('<anonymous>')) return true;
+  if (parseStackFrame(line)?.isNative) return true;
 
   return false;
 }
@@ -348,33 +479,124 @@ function findFiberElementFromNode(node: Node): Fiber | null {
   return node[fiberProperty as keyof typeof node] as unknown as Fiber;
 }
 
+/**
+ * Returns a lazy per-frame resolver over `frames`.  Frames requested in the
+ * same tick are collected and resolved together through one
+ * `resolveLocations` batch; each frame is resolved at most once.
+ */
+function createFrameBatcher(
+  frames: ReadonlyArray<string | undefined>,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): (index: number) => Promise<ResolvedSourceInfo | null> {
+  const requested = new Map<number, Promise<ResolvedSourceInfo | null>>();
+  let pending: { index: number; resolve: (batch: Promise<ResolvedSourceInfo | null>) => void }[] =
+    [];
+
+  const flush = () => {
+    const batch = pending;
+    pending = [];
+    const results = resolveLocations(
+      batch.map(({ index }) => frames[index]),
+      debug,
+      options
+    );
+    batch.forEach(({ resolve }, position) => resolve(results.then((r) => r[position])));
+  };
+
+  return (index) => {
+    let result = requested.get(index);
+    if (!result) {
+      if (pending.length === 0) queueMicrotask(flush);
+      result = new Promise((resolve) => pending.push({ index, resolve }));
+      requested.set(index, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Resolves the original name of `chain[index]`.  The element below it in the
+ * chain was created while the component rendered, so that element's own
+ * stack frame lies inside the component's body.
+ */
+function resolveChainOriginalName(
+  chain: ClickToNodeInfo[],
+  index: number,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<string | null> {
+  const lookup = chainNameLookup(chain, index);
+  if (!lookup) return Promise.resolve(null);
+  return resolveOriginalName(lookup.innerFrame, lookup.generatedName, debug, options);
+}
+
+function chainNameLookup(
+  chain: ClickToNodeInfo[],
+  index: number
+): { generatedName: string; innerFrame: string } | null {
+  const { generatedName } = chain[index];
+  const innerFrame = index > 0 ? chain[index - 1].stackFrame : undefined;
+  return generatedName && innerFrame ? { generatedName, innerFrame } : null;
+}
+
+/**
+ * Identifies the original name lookup of `chain[index]` across clicks — the
+ * same component rendered from the same place has the same key.
+ */
+function chainNameKey(chain: ClickToNodeInfo[], index: number): string | undefined {
+  const lookup = chainNameLookup(chain, index);
+  return lookup ? `${lookup.generatedName}\n${lookup.innerFrame}` : undefined;
+}
+
 /**
  * Resolves the source location for a single component and opens the editor.
- * Delegates to the resolver's own two-level cache.
+ * Delegates to the resolver's own two-level cache.  Nothing is opened — and
+ * `onResolveError` is not called — once `options.signal` has aborted.
  */
 async function resolveAndNavigate(
   component: ClickToNodeInfo,
   onNavigate?: ShowComponentProps['onNavigate'],
   editorScheme?: string,
-  debug?: boolean
+  debug?: boolean,
+  options?: ResolveLocationOptions,
+  onResolveError?: ShowComponentProps['onResolveError']
 ): Promise<boolean> {
-  if (!component.stackFrame) return false;
+  const { componentName } = component;
+  if (!component.stackFrame) {
+    onResolveError?.({
+      reason: 'no-stack-frame',
+      message: `${componentName} has no _debugStack (React 19 development builds only)`,
+      componentName,
+    });
+    return false;
+  }
 
   try {
-    const resolved = await resolveLocation(component.stackFrame, debug);
-    if (resolved) {
-      openInEditor(
-        resolved.source,
-        resolved.line,
-        resolved.column,
-        onNavigate,
-        component.componentName,
-        editorScheme,
-        debug
-      );
-      return true;
+    const { resolved, failure } = await resolveComponentLocation(
+      component.stackFrames,
+      debug,
+      options
+    );
+    if (options?.signal?.aborted) return false;
+    if (!resolved) {
+      const reported: ResolveFailure = failure ?? {
+        reason: 'unresolved',
+        message: `Could not resolve the location of ${componentName}`,
+      };
+      onResolveError?.({ ...reported, componentName });
+      return false;
     }
-    return false;
+    openInEditor(
+      applyPathMappings(resolved.source, debug),
+      resolved.line,
+      resolved.column,
+      onNavigate,
+      componentName,
+      editorScheme,
+      debug
+    );
+    return true;
   } catch {
     return false;
   }
@@ -382,9 +604,15 @@ async function resolveAndNavigate(
 
 export function ShowComponent({
   onNavigate,
+  onResolveError,
   sourceRoot,
+  pathMappings,
   editorScheme,
   getClickTarget,
+  persistentCache,
+  rscEndpoint,
+  resolveTimeout,
+  hot,
   debug,
 }: ShowComponentProps = {}) {
   // Keep stable refs so event handlers registered once (in useEffect [])
@@ -392,6 +620,9 @@ export function ShowComponent({
   const onNavigateRef = useRef(onNavigate);
   onNavigateRef.current = onNavigate;
 
+  const onResolveErrorRef = useRef(onResolveError);
+  onResolveErrorRef.current = onResolveError;
+
   const editorSchemeRef = useRef(editorScheme);
   editorSchemeRef.current = editorScheme;
 
@@ -401,13 +632,57 @@ export function ShowComponent({
   const debugRef = useRef(debug);
   debugRef.current = debug;
 
+  const resolveTimeoutRef = useRef(resolveTimeout);
+  resolveTimeoutRef.current = resolveTimeout;
+
+  // Only the latest navigation may open the editor — starting a new one
+  // aborts the previous (still resolving) one.
+  const navigationRef = useRef<AbortController | null>(null);
+  const startNavigation = useCallback((): ResolveLocationOptions => {
+    navigationRef.current?.abort();
+    const controller = new AbortController();
+    navigationRef.current = controller;
+    return {
+      signal: controller.signal,
+      timeout: resolveTimeoutRef.current ?? DEFAULT_RESOLVE_TIMEOUT,
+    };
+  }, []);
+  useEffect(() => () => navigationRef.current?.abort(), []);
+
   useEffect(() => {
     configureSourceRoot(sourceRoot);
+    void detectSourceRoot(debugRef.current);
   }, [sourceRoot]);
 
+  useEffect(() => {
+    configurePathMappings(pathMappings);
+  }, [pathMappings]);
+
+  useEffect(() => {
+    configurePersistentCache(persistentCache);
+  }, [persistentCache]);
+
+  useEffect(() => {
+    configureRscEndpoint(rscEndpoint);
+  }, [rscEndpoint]);
+
+  useEffect(
+    () =>
+      subscribeToHmr(hot, (urlPredicate) => {
+        if (debugRef.current) console.log('[show-component] Hot update — evicting cached chunks');
+        clearCaches(urlPredicate);
+      }),
+    [hot]
+  );
+
   const [isPopoverOpen, setIsPopoverOpen] = useState(false);
   const [fibersChain, setFibersChain] = useState<ClickToNodeInfo[]>([]);
   const [popoverPosition, setPopoverPosition] = useState({ x: 0, y: 0 });
+  // Recovered names of minified chain entries by `chainNameKey`, kept across
+  // popover openings
+  const [originalNames, setOriginalNames] = useState<Record<string, string>>({});
+  const nameRequestsRef = useRef(new Set<string>());
+  const popoverSignalRef = useRef<AbortSignal | undefined>(undefined);
   interface PropsPopup {
     id: string;
     component: ClickToNodeInfo;
@@ -431,13 +706,47 @@ export function ShowComponent({
     direction: string;
   } | null>(null);
 
+  // Name lookups started from the popover are dropped when it closes
+  useEffect(() => {
+    if (!isPopoverOpen) return;
+    const controller = new AbortController();
+    popoverSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, [isPopoverOpen]);
+
+  // Recovers the minified name of a chain row once it is hovered or focused,
+  // so rows nobody points at cost no source map lookups
+  const requestOriginalName = (index: number) => {
+    const key = chainNameKey(fibersChain, index);
+    if (!key || nameRequestsRef.current.has(key)) return;
+    nameRequestsRef.current.add(key);
+    resolveChainOriginalName(fibersChain, index, debugRef.current, {
+      signal: popoverSignalRef.current,
+      timeout: resolveTimeoutRef.current ?? DEFAULT_RESOLVE_TIMEOUT,
+    })
+      .then((name) => {
+        if (name) setOriginalNames((prev) => ({ ...prev, [key]: name }));
+      })
+      .catch((error) => {
+        if (isAbortError(error)) {
+          // Closed before it finished — look it up again next time
+          nameRequestsRef.current.delete(key);
+        } else if (debugRef.current) {
+          // The name simply stays minified
+          console.warn('[show-component] Could not recover the original name:', error);
+        }
+      });
+  };
+
   const handleComponentClick = async (index: number) => {
     setIsPopoverOpen(false);
     await resolveAndNavigate(
       fibersChain[index],
       onNavigateRef.current,
       editorSchemeRef.current,
-      debugRef.current
+      debugRef.current,
+      startNavigation(),
+      onResolveErrorRef.current
     );
   };
 
@@ -446,7 +755,9 @@ export function ShowComponent({
       component,
       onNavigateRef.current,
       editorSchemeRef.current,
-      debugRef.current
+      debugRef.current,
+      startNavigation(),
+      onResolveErrorRef.current
     );
   };
 
@@ -608,12 +919,17 @@ export function ShowComponent({
 
         chain.push({
           componentName: getComponentName(fiber),
+          generatedName: getGeneratedName(fiber.type),
           stackFrame: getStackFrame(fiber),
+          stackFrames: [],
           fiber,
           props,
         });
         fiber = fiber._debugOwner;
       }
+      chain.forEach((entry, i) => {
+        entry.stackFrames = chain.slice(i).map((owner) => owner.stackFrame);
+      });
       return chain;
     }
 
@@ -636,42 +952,80 @@ export function ShowComponent({
 
       // Alt+RightClick: navigate to click target
       const clickTargetCb = getClickTargetRef.current;
+      const navigation = startNavigation();
 
       if (clickTargetCb) {
         // Build lightweight handles — resolveSource() closures are cheap to
         // create and only trigger real work (fetch + source-map parse) when
-        // the consumer actually calls them.
+        // the consumer actually calls them.  Handles requested together are
+        // resolved in one batch; handles never requested are never resolved.
         const dbg = debugRef.current;
+        const resolveFrame = createFrameBatcher(
+          chain.map((c) => c.stackFrame),
+          dbg,
+          navigation
+        );
+        const locations: Promise<ComponentLocation>[] = [];
+        const locate = (i: number) => {
+          if (!locations[i]) {
+            locations[i] = resolveComponentLocation(
+              chain[i].stackFrames,
+              dbg,
+              navigation,
+              resolveFrame(i)
+            );
+          }
+          return locations[i];
+        };
+        const nameLookups: Promise<string | null>[] = [];
         const handles: ComponentHandle[] = chain.map((c, i) => ({
           componentName: c.componentName,
           props: c.props,
           index: i,
           resolveSource: () =>
-            c.stackFrame
-              ? resolveLocation(c.stackFrame, dbg).then((r) =>
-                  r ? { source: r.source, line: r.line, column: r.column } : null
-                )
-              : Promise.resolve(null),
+            locate(i).then(({ resolved: r }) =>
+              r ? { source: r.source, line: r.line, column: r.column } : null
+            ),
+          isIgnoreListed: () => locate(i).then((location) => location.ignoreListed),
+          originalName: () => {
+            if (!nameLookups[i]) {
+              nameLookups[i] = resolveChainOriginalName(chain, i, dbg, navigation);
+            }
+            return nameLookups[i];
+          },
         }));
 
         // Support both sync and async return values.
-        Promise.resolve(clickTargetCb(handles)).then((targetIndex) => {
-          const idx = targetIndex ?? 0;
-          if (idx >= 0 && idx < chain.length) {
-            resolveAndNavigate(
-              chain[idx],
-              onNavigateRef.current,
-              editorSchemeRef.current,
-              debugRef.current
-            );
-          }
-        });
+        Promise.resolve(clickTargetCb(handles))
+          .then((targetIndex) => {
+            const idx = targetIndex ?? 0;
+            if (idx >= 0 && idx < chain.length && !navigation.signal?.aborted) {
+              resolveAndNavigate(
+                chain[idx],
+                onNavigateRef.current,
+                editorSchemeRef.current,
+                debugRef.current,
+                navigation,
+                onResolveErrorRef.current
+              );
+            }
+          })
+          .catch((error) => {
+            // A newer click superseded this one while `getClickTarget` awaited a handle
+            if (isAbortError(error) || navigation.signal?.aborted) return;
+            onResolveErrorRef.current?.({
+              ...toResolveFailure(error),
+              componentName: chain[0].componentName,
+            });
+          });
       } else {
         resolveAndNavigate(
           chain[0],
           onNavigateRef.current,
           editorSchemeRef.current,
-          debugRef.current
+          debugRef.current,
+          navigation,
+          onResolveErrorRef.current
         );
       }
     };
@@ -692,7 +1046,7 @@ export function ShowComponent({
       document.removeEventListener('mousedown', handleMouseDown, true);
       document.removeEventListener('contextmenu', handleContextMenu, true);
     };
-  }, []);
+  }, [startNavigation]);
 
   useEffect(() => {
     const active = draggingPopup || resizingPopup;
@@ -764,6 +1118,8 @@ export function ShowComponent({
             {fibersChain.map((component, index) => {
               const hasProps =
                 component.props && Object.keys(component.props).some((k) => k !== 'children');
+              const nameKey = chainNameKey(fibersChain, index);
+              const originalName = nameKey ? originalNames[nameKey] : undefined;
 
               return (
                 <div key={`${component.componentName}-${index}`} className="sc-chain-row">
@@ -771,8 +1127,17 @@ export function ShowComponent({
                     type="button"
                     className="sc-chain-item"
                     onClick={() => handleComponentClick(index)}
+                    onMouseEnter={() => requestOriginalName(index)}
+                    onFocus={() => requestOriginalName(index)}
                   >
-                    {component.componentName}
+                    {originalName && originalName !== component.componentName ? (
+                      <>
+                        {originalName}
+                        <span className="sc-generated-name">{component.componentName}</span>
+                      </>
+                    ) : (
+                      component.componentName
+                    )}
                   </button>
                   {hasProps && (
                     <button
@@ -936,6 +1301,11 @@ const SC_STYLES = `
 .sc-chain-item:hover {
   background-color: #f3f4f6;
 }
+.sc-generated-name {
+  margin-left: 6px;
+  font-weight: 400;
+  color: #9ca3af;
+}
 .sc-icon-btn {
   display: inline-flex;
   align-items: center;
@@ -0,0 +1,116 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { SourceMapGenerator } from '@jridgewell/source-map';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { type CliFrameResult, runCli } from './cli';
+import { configureResolverStrategies } from './lib/resolver-strategies';
+import { configureSourceLoader } from './lib/source-loader';
+import { clearCaches } from './lib/source-location-resolver';
+
+function createIo(stdin = '') {
+  const io = {
+    stdin: Readable.from([stdin]),
+    out: '',
+    err: '',
+    stdout: {
+      write(text: string) {
+        io.out += text;
+      },
+    },
+    stderr: {
+      write(text: string) {
+        io.err += text;
+      },
+    },
+  };
+  return io;
+}
+
+describe('runCli', () => {
+  let buildDir: string;
+
+  beforeAll(() => {
+    const root = mkdtempSync(path.join(tmpdir(), 'show-component-'));
+    buildDir = path.join(root, 'build');
+    const generator = new SourceMapGenerator({ file: 'index-3f2a.js' });
+    generator.addMapping({
+      generated: { line: 1, column: 0 },
+      original: { line: 2, column: 9 },
+      source: '../../src/App.tsx',
+      name: 'App',
+    });
+    generator.setSourceContent(
+      '../../src/App.tsx',
+      'import { jsx } from "react/jsx-runtime";\nexport function App() {\n  return null;\n}\n'
+    );
+    mkdirSync(path.join(buildDir, 'assets'), { recursive: true });
+    writeFileSync(
+      path.join(buildDir, 'assets', 'index-3f2a.js'),
+      'function a(){}\n//# sourceMappingURL=index-3f2a.js.map'
+    );
+    writeFileSync(path.join(buildDir, 'assets', 'index-3f2a.js.map'), generator.toString());
+  });
+
+  afterAll(() => {
+    rmSync(path.dirname(buildDir), { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    configureSourceLoader(undefined);
+    configureResolverStrategies({});
+    clearCaches();
+  });
+
+  const frame = 'at App (https://qa.example.com/assets/index-3f2a.js:1:5)';
+
+  it('resolves stack lines from stdin against the build directory', async () => {
+    const io = createIo(`Error: boom\n    ${frame}\n`);
+
+    const code = await runCli(['--dir', buildDir], io);
+
+    expect(code).toBe(0);
+    const source = path.join(path.dirname(buildDir), 'src', 'App.tsx');
+    expect(io.out).toContain(`App  ${source}:2:10`);
+    expect(io.out).toContain('> 2 | export function App() {');
+  });
+
+  it('prints JSON results, with failures', async () => {
+    const io = createIo();
+    const missing = 'at Other (https://qa.example.com/assets/missing.js:1:5)';
+
+    const code = await runCli(['-d', buildDir, '--json', '--no-code-frame', frame, missing], io);
+
+    expect(code).toBe(1);
+    const results: CliFrameResult[] = JSON.parse(io.out);
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      input: frame,
+      frame: { url: 'https://qa.example.com/assets/index-3f2a.js', line: 1, column: 5 },
+      location: { line: 2, column: 10, name: 'App' },
+    });
+    expect(results[0].location).not.toHaveProperty('codeFrame');
+    expect(results[0].location).not.toHaveProperty('sourceContent');
+    expect(results[1]).toMatchObject({ failure: { reason: 'fetch-failed' } });
+  });
+
+  it('prints the same 1-based column as text and JSON', async () => {
+    const text = createIo();
+    const json = createIo();
+
+    await runCli(['-d', buildDir, '--no-code-frame', frame], text);
+    await runCli(['-d', buildDir, '--json', '--no-code-frame', frame], json);
+
+    const [result]: CliFrameResult[] = JSON.parse(json.out);
+    expect(result.location?.column).toBe(10);
+    expect(text.out).toBe(`App  ${result.location?.source}:2:10\n`);
+  });
+
+  it('rejects input without stack frames', async () => {
+    const io = createIo('nothing to see here\n');
+
+    expect(await runCli(['--dir', buildDir], io)).toBe(2);
+    expect(io.err).toContain('No stack frames found');
+  });
+});
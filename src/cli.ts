@@ -0,0 +1,165 @@
+import { parseArgs } from 'node:util';
+import type { ResolveFailure } from './lib/resolve-error';
+import { configureResolverStrategies } from './lib/resolver-strategies';
+import { configureSourceLoader } from './lib/source-loader';
+import { type ResolvedSourceInfo, resolveLocationDetailed } from './lib/source-location-resolver';
+import { type StackFrameInfo, parseStackFrame } from './lib/stack-frame-parser';
+import { createNodeSourceLoader } from './node';
+
+// ─── Command-line symbolicator ──────────────────────────────────────────────
+// `show-component` resolves stack frames captured elsewhere — QA logs,
+// `_debugStack`s copied from screenshots — against the `.map` files of a
+// local build:
+//
+//   pbpaste | npx show-component --dir .next
+//   npx show-component --dir dist 'at App (https://qa.example.com/assets/index-3f2a.js:1:2345)'
+//
+// Frames are read from the arguments, or from stdin when there are none.
+// Lines that aren't stack frames are skipped, so whole logs can be piped in.
+// Chunk URLs are looked up in the build directory (see `createNodeSourceLoader`).
+
+const USAGE = `Usage: show-component [options] [stack lines...]
+
+Resolves stack frames to their original source locations using the source
+maps of a local build.  Reads the stack from stdin when no lines are given.
+
+Options:
+  -d, --dir <path>      Build output directory (default: current directory)
+  -c, --context <n>     Lines of code frame context (default: 2)
+      --no-code-frame   Print locations only
+      --json            Print the results as JSON
+  -h, --help            Show this help
+`;
+
+export interface CliIo {
+  stdin: NodeJS.ReadableStream;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/** Result of one input frame, as printed by `--json`. */
+export interface CliFrameResult {
+  /** The input line the frame was parsed from. */
+  input: string;
+  frame: StackFrameInfo;
+  /** With a 1-based column, like `frame` and the text output. */
+  location?: ResolvedSourceInfo;
+  failure?: ResolveFailure;
+}
+
+function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    stream.setEncoding('utf8');
+    stream.on('data', (chunk: string) => {
+      text += chunk;
+    });
+    stream.on('end', () => resolve(text));
+    stream.on('error', reject);
+  });
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => prefix + line)
+    .join('\n');
+}
+
+/**
+ * `Foo  /app/src/App.tsx:12:5` — with a 1-based column, like the input
+ * frames and the `file:line:col` editors accept.
+ */
+function formatResult({ frame, location, failure }: CliFrameResult): string {
+  const name = location?.name ?? frame.functionName ?? '<anonymous>';
+  if (!location) {
+    const reason = failure ? ` (${failure.reason}: ${failure.message})` : '';
+    return `${name}  ${frame.url}:${frame.line}:${frame.column}${reason}`;
+  }
+  const position = `${location.source}:${location.line}:${location.column}`;
+  return location.codeFrame
+    ? `${name}  ${position}\n${indent(location.codeFrame, '  ')}`
+    : `${name}  ${position}`;
+}
+
+/**
+ * Runs the CLI with `argv` (without the node and script paths).  Resolves to
+ * the exit code: `0` when every frame resolved, `1` when some didn't and `2`
+ * for usage errors or input without stack frames.
+ */
+export async function runCli(argv: string[], io: CliIo = process): Promise<number> {
+  let values: ReturnType<typeof parseCliArgs>['values'];
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseCliArgs(argv));
+  } catch (error) {
+    io.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  if (values.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+
+  const context = values.context === undefined ? undefined : Number(values.context);
+  if (context !== undefined && !(context >= 0)) {
+    io.stderr.write(`Invalid --context: ${values.context}\n`);
+    return 2;
+  }
+
+  const input = positionals.length > 0 ? positionals.join('\n') : await readAll(io.stdin);
+  const lines = input.split(/\r?\n/).filter((line) => {
+    const frame = parseStackFrame(line);
+    return frame && !frame.isNative;
+  });
+  if (lines.length === 0) {
+    io.stderr.write('No stack frames found in the input.\n');
+    return 2;
+  }
+
+  configureSourceLoader(createNodeSourceLoader({ buildDir: values.dir ?? process.cwd() }));
+  // The other built-ins need a running dev server or page
+  configureResolverStrategies({
+    disabled: ['nextjs', 'rsc-endpoint', 'webpack-eval', 'nextjs-client'],
+  });
+
+  const results: CliFrameResult[] = [];
+  for (const line of lines) {
+    const frame = parseStackFrame(line) as StackFrameInfo;
+    const result = await resolveLocationDetailed(line, false, {
+      codeFrame: values['no-code-frame'] ? undefined : (context ?? true),
+    });
+    if (result.ok) {
+      // The whole original file isn't worth printing
+      const { sourceContent: _sourceContent, ...location } = result.location;
+      results.push({
+        input: line.trim(),
+        frame,
+        location: { ...location, column: location.column + 1 },
+      });
+    } else {
+      results.push({ input: line.trim(), frame, failure: result.failure });
+    }
+  }
+
+  if (values.json) {
+    io.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+  } else {
+    io.stdout.write(`${results.map(formatResult).join('\n')}\n`);
+  }
+  return results.every((result) => result.location) ? 0 : 1;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string', short: 'd' },
+      context: { type: 'string', short: 'c' },
+      'no-code-frame': { type: 'boolean' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
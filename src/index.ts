@@ -12,5 +12,62 @@ const ShowComponent: typeof ShowComponentImpl =
   process.env.NODE_ENV === 'development' ? ShowComponentImpl : ((() => null) as any);
 
 export { ShowComponent };
-export { configureSourceRoot, clearCaches } from './lib/source-location-resolver';
-export type { ComponentHandle, NavigationEvent, ShowComponentProps } from './ShowComponent';
+export {
+  configureSourceRoot,
+  clearCaches,
+  detectSourceRoot,
+  getCacheStats,
+  resolveLocation,
+  resolveLocationDetailed,
+  resolveLocations,
+  resolveOriginalName,
+} from './lib/source-location-resolver';
+export type {
+  CacheLayerStats,
+  CacheStats,
+  DetailedResolveResult,
+  ResolveLocationOptions,
+  ResolvedSourceInfo,
+  StackFrameInfo,
+} from './lib/source-location-resolver';
+export {
+  configureResolverStrategies,
+  registerResolverStrategy,
+} from './lib/resolver-strategies';
+export type {
+  ResolverStrategiesConfig,
+  ResolverStrategy,
+  ResolverStrategyContext,
+} from './lib/resolver-strategies';
+export { configureResolver } from './lib/resolver-config';
+export type { ResolverConfig } from './lib/resolver-config';
+export { parseStack, parseStackFrame } from './lib/stack-frame-parser';
+export { symbolicateStack } from './lib/symbolicate-stack';
+export type { SymbolicatedFrame, SymbolicatedStack } from './lib/symbolicate-stack';
+export { ResolveError } from './lib/resolve-error';
+export type { ResolveFailure, ResolveFailureReason } from './lib/resolve-error';
+export { configurePathMappings } from './lib/path-mappings';
+export type { PathMapping } from './lib/path-mappings';
+export { configurePersistentCache } from './lib/persistent-cache';
+export { configureRscEndpoint, fileSourceMapEndpoint } from './lib/rsc-endpoint';
+export type { RscEndpointConfig, RscEndpointResult, RscFrame } from './lib/rsc-endpoint';
+export { configureSourceLoader } from './lib/source-loader';
+export type { LoadedSource, SourceKind, SourceLoader } from './lib/source-loader';
+export {
+  configureDebugIdLookup,
+  createDebugIdRegistry,
+  debugIdDirectory,
+} from './lib/debug-id';
+export type { DebugIdLookup, DebugIdLookupResult, DebugIdRegistry } from './lib/debug-id';
+export {
+  configureSourceMapLocator,
+  conventionalSourceMapLocator,
+} from './lib/source-map-locator';
+export type { SourceMapLocator, SourceMapLocatorConfig } from './lib/source-map-locator';
+export type { HotContext } from './lib/hmr';
+export type {
+  ComponentHandle,
+  NavigationEvent,
+  ResolveErrorEvent,
+  ShowComponentProps,
+} from './ShowComponent';
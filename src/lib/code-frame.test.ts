@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildCodeFrame, stripAnsi } from './code-frame';
+
+const source = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l'].join('\n');
+
+describe('buildCodeFrame', () => {
+  it('marks the target line and column with two lines of context by default', () => {
+    expect(buildCodeFrame('one\ntwo\n  three();\nfour\nfive\nsix', 3, 2)).toBe(
+      ['  1 | one', '  2 | two', '> 3 |   three();', '    |   ^', '  4 | four', '  5 | five'].join(
+        '\n'
+      )
+    );
+  });
+
+  it('clamps context at the start and end of the file and pads the gutter', () => {
+    expect(buildCodeFrame(source, 1, 0, 1)).toBe(['> 1 | a', '    | ^', '  2 | b'].join('\n'));
+    expect(buildCodeFrame(source, 11, 0, 3)).toBe(
+      ['   8 | h', '   9 | i', '  10 | j', '> 11 | k', '     | ^', '  12 | l'].join('\n')
+    );
+  });
+
+  it('keeps tabs in the caret line and handles CRLF sources', () => {
+    expect(buildCodeFrame('x\r\n\tfoo()\r\ny', 2, 2, 0)).toBe(
+      ['> 2 | \tfoo()', '    | \t ^'].join('\n')
+    );
+  });
+
+  it('returns undefined for lines outside the source', () => {
+    expect(buildCodeFrame(source, 0, 0)).toBeUndefined();
+    expect(buildCodeFrame(source, 13, 0)).toBeUndefined();
+  });
+});
+
+describe('stripAnsi', () => {
+  it('removes colour escapes', () => {
+    expect(stripAnsi('\u001b[31m\u001b[1m>\u001b[22m\u001b[39m 1 | x')).toBe('> 1 | x');
+  });
+});
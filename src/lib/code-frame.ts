@@ -0,0 +1,53 @@
+// ─── Code frames ────────────────────────────────────────────────────────────
+// A compact excerpt of the original source around a resolved location, in
+// the familiar Babel / Next.js layout:
+//
+//     3 |   const items = useItems();
+//   > 4 |   return <List items={items} />;
+//       |          ^
+//     5 | }
+
+/** Context lines above and below the target line when none are requested. */
+export const DEFAULT_CODE_FRAME_LINES = 2;
+
+/**
+ * Builds a code frame from `sourceContent` around `line` (1-based), marking
+ * `column` (0-based) with a caret.  Returns `undefined` when `line` is
+ * outside the source.
+ */
+export function buildCodeFrame(
+  sourceContent: string,
+  line: number,
+  column: number,
+  contextLines = DEFAULT_CODE_FRAME_LINES
+): string | undefined {
+  const lines = sourceContent.split(/\r?\n/);
+  if (line < 1 || line > lines.length) return undefined;
+
+  const context = Math.max(0, Math.floor(contextLines));
+  const first = Math.max(1, line - context);
+  const last = Math.min(lines.length, line + context);
+  const gutterWidth = String(last).length;
+
+  const output: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const text = lines[current - 1];
+    const number = String(current);
+    const gutter = ' '.repeat(gutterWidth - number.length) + number;
+    if (current === line) {
+      output.push(`> ${gutter} |${text ? ` ${text}` : ''}`);
+      // Keep tabs so the caret lines up with the code above it
+      const indent = text.slice(0, Math.max(0, column)).replace(/[^\t]/g, ' ');
+      output.push(`  ${' '.repeat(gutterWidth)} | ${indent}^`);
+    } else {
+      output.push(`  ${gutter} |${text ? ` ${text}` : ''}`);
+    }
+  }
+  return output.join('\n');
+}
+
+/** Removes ANSI colour escapes, e.g. from the Next.js dev server's `originalCodeFrame`. */
+export function stripAnsi(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matching ESC is the point
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
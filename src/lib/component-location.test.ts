@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveComponentLocation } from './component-location';
+import { clearCaches } from './source-location-resolver';
+
+const originalFetch = globalThis.fetch;
+
+// Line 1 maps into the app, lines 2 and 3 into an ignore-listed library
+const sourceMap = JSON.stringify({
+  version: 3,
+  sections: [
+    {
+      offset: { line: 0, column: 0 },
+      map: { version: 3, sources: ['Page.tsx'], names: ['Page'], mappings: 'AAAAA' },
+    },
+    {
+      offset: { line: 1, column: 0 },
+      map: {
+        version: 3,
+        sources: ['node_modules/ui-lib/Dialog.js'],
+        names: ['Dialog'],
+        mappings: 'AAAAA;AACAA',
+        ignoreList: [0],
+      },
+    },
+  ],
+});
+
+function mockChunkFetch() {
+  const mockFetch = vi.fn((url: string) =>
+    Promise.resolve({
+      ok: true,
+      text: () =>
+        Promise.resolve(url.endsWith('.map') ? sourceMap : '//# sourceMappingURL=app.js.map'),
+    })
+  );
+  globalThis.fetch = mockFetch as unknown as typeof fetch;
+  return mockFetch;
+}
+
+const pageFrame = 'at Page (http://localhost:3000/src/app.js:1:0)';
+const dialogFrame = 'at Dialog (http://localhost:3000/src/app.js:2:0)';
+const portalFrame = 'at Portal (http://localhost:3000/src/app.js:3:0)';
+
+describe('resolveComponentLocation', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    clearCaches();
+  });
+
+  it('uses the own frame when it is not ignore-listed', async () => {
+    mockChunkFetch();
+    const location = await resolveComponentLocation([pageFrame]);
+    expect(location.ignoreListed).toBe(false);
+    expect(location.resolved).toMatchObject({ source: '/src/Page.tsx', line: 1 });
+  });
+
+  it('falls back to the owner when the ignore-listed frame is the only user frame', async () => {
+    mockChunkFetch();
+    // The Dialog fiber's _debugStack holds nothing but React internals below
+    // its own frame, so only its owners can provide a usable location
+    const location = await resolveComponentLocation([
+      dialogFrame,
+      undefined,
+      portalFrame,
+      pageFrame,
+    ]);
+    expect(location.ignoreListed).toBe(true);
+    expect(location.resolved).toMatchObject({ source: '/src/Page.tsx', line: 1 });
+  });
+
+  it('keeps the own frame when every owner is ignore-listed', async () => {
+    mockChunkFetch();
+    const location = await resolveComponentLocation([dialogFrame, portalFrame]);
+    expect(location.ignoreListed).toBe(true);
+    expect(location.resolved).toMatchObject({
+      source: '/src/node_modules/ui-lib/Dialog.js',
+      line: 1,
+    });
+  });
+
+  it('reports why the own frame could not be resolved', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' })
+    ) as unknown as typeof fetch;
+    const location = await resolveComponentLocation([pageFrame]);
+    expect(location.resolved).toBeNull();
+    expect(location.failure?.reason).toBeDefined();
+  });
+});
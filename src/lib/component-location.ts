@@ -0,0 +1,62 @@
+import type { ResolveFailure } from './resolve-error';
+import {
+  type ResolveLocationOptions,
+  type ResolvedSourceInfo,
+  resolveLocation,
+  resolveLocationDetailed,
+} from './source-location-resolver';
+
+// ─── Component locations ────────────────────────────────────────────────────
+// A component whose own frame maps into an ignore-listed (third-party) source
+// — e.g. an element created inside a UI library — has nothing useful further
+// down its `_debugStack`: the frames below it are React internals.  Its
+// owner, the component that rendered it, usually is user code, so the
+// fallback walks up the owner chain instead.
+
+export interface ComponentLocation {
+  /** The first owner-chain frame outside ignore-listed sources (or the component's own frame). */
+  resolved: ResolvedSourceInfo | null;
+  /** Whether the component's own frame maps into an ignore-listed source. */
+  ignoreListed: boolean;
+  /** Why the component's own frame could not be resolved, when known. */
+  failure?: ResolveFailure;
+}
+
+/**
+ * Resolves a component's location, skipping components whose frame maps into
+ * an ignore-listed source.  `frames` holds the component's own frame followed
+ * by the frames of its owners, closest first; owners without a frame are
+ * passed over.  When every owner is ignore-listed — or one can't be resolved
+ * — the component's own frame is used.
+ *
+ * `ownFrame` lets callers pass an already-started resolution of the first
+ * frame (e.g. from a `resolveLocations` batch over several handles).
+ */
+export async function resolveComponentLocation(
+  frames: ReadonlyArray<string | undefined>,
+  debug?: boolean,
+  options?: ResolveLocationOptions,
+  ownFrame?: Promise<ResolvedSourceInfo | null>
+): Promise<ComponentLocation> {
+  if (!frames[0]) return { resolved: null, ignoreListed: false };
+
+  let own: ResolvedSourceInfo | null;
+  if (ownFrame) {
+    own = await ownFrame;
+  } else {
+    const outcome = await resolveLocationDetailed(frames[0], debug, options);
+    if (!outcome.ok) return { resolved: null, ignoreListed: false, failure: outcome.failure };
+    own = outcome.location;
+  }
+  if (!own || !own.ignoreListed) return { resolved: own, ignoreListed: false };
+
+  for (let i = 1; i < frames.length; i++) {
+    const frame = frames[i];
+    if (!frame) continue;
+    if (debug) console.log('[show-component] Ignore-listed frame, trying its owner:', frame);
+    const owner = await resolveLocation(frame, debug, options);
+    if (!owner) break;
+    if (!owner.ignoreListed) return { resolved: owner, ignoreListed: true };
+  }
+  return { resolved: own, ignoreListed: true };
+}
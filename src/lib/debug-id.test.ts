@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDebugIdRegistry,
+  debugIdDirectory,
+  extractDebugId,
+  getSourceMapDebugId,
+  isDebugIdMismatch,
+} from './debug-id';
+
+const debugId = '85314830-023f-4cf1-a267-535f4e37bb17';
+
+describe('extractDebugId', () => {
+  it('reads the debugId comment near the end of a chunk', () => {
+    expect(
+      extractDebugId(
+        `console.log(1);\n//# debugId=${debugId.toUpperCase()}\n//# sourceMappingURL=a.js.map\n`
+      )
+    ).toBe(debugId);
+  });
+
+  it('returns null for chunks without one', () => {
+    expect(extractDebugId('console.log("//# debugId=1234");')).toBeNull();
+  });
+});
+
+describe('getSourceMapDebugId', () => {
+  it.each([
+    [`{"version":3,"debugId":"${debugId}","mappings":""}`, debugId],
+    [`{"version":3,"debug_id":"${debugId.toUpperCase()}"}`, debugId],
+    ['{"version":3,"mappings":""}', null],
+    // Only a string inside the embedded sources
+    [`{"sourcesContent":["const map = {\\"debugId\\": \\"${debugId}\\"}"]}`, null],
+  ])('%s → %s', (sourceMap, expected) => {
+    expect(getSourceMapDebugId(sourceMap)).toBe(expected);
+  });
+});
+
+describe('isDebugIdMismatch', () => {
+  it('only reports maps carrying a different ID', () => {
+    const other = '00000000-0000-4000-8000-000000000000';
+    expect(isDebugIdMismatch(debugId, `{"debugId":"${other}"}`)).toBe(true);
+    expect(isDebugIdMismatch(debugId, `{"debugId":"${debugId}"}`)).toBe(false);
+    expect(isDebugIdMismatch(debugId, '{"version":3}')).toBe(false);
+    expect(isDebugIdMismatch(null, `{"debugId":"${other}"}`)).toBe(false);
+  });
+});
+
+describe('debugIdDirectory', () => {
+  it('names maps by debug ID below the base URL', () => {
+    expect(debugIdDirectory('/__source-maps/')(debugId, 'http://localhost:3000/app.js')).toEqual({
+      url: `/__source-maps/${debugId}.map`,
+    });
+  });
+});
+
+describe('createDebugIdRegistry', () => {
+  it('looks up registered maps by the debug ID they carry', () => {
+    const registry = createDebugIdRegistry();
+    const sourceMap = `{"version":3,"debugId":"${debugId}"}`;
+    registry.register(sourceMap);
+
+    expect(registry.lookup(debugId, 'http://localhost:3000/app.js')).toEqual({ sourceMap });
+    expect(registry.lookup('00000000-0000-4000-8000-000000000000', '')).toBeNull();
+    expect(() => registry.register('{"version":3}')).toThrow(/no debugId/);
+  });
+});
@@ -0,0 +1,112 @@
+// ─── Debug IDs ──────────────────────────────────────────────────────────────
+// Bundlers implementing the TC39 debug ID proposal (esbuild, Rollup, Vite,
+// Turbopack, webpack with `DebugIdPlugin`s) stamp each chunk and its source
+// map with the same UUID:
+//
+//   //# debugId=85314830-023f-4cf1-a267-535f4e37bb17       (end of the chunk)
+//   { "version": 3, "debugId": "85314830-…", … }          (the source map)
+//
+// Symbol stores index maps by that ID, so a map can be found without any
+// `sourceMappingURL`:
+//
+//   configureDebugIdLookup(debugIdDirectory('/__source-maps'));
+//
+// Whenever both carry one, the IDs are compared, which catches maps from a
+// stale cache or another deploy that would otherwise resolve to wrong lines.
+
+/** Where a debug ID lookup found a source map. */
+export type DebugIdLookupResult =
+  /** URL of the map — absolute, or relative to the chunk URL. */
+  | { url: string }
+  /** The source map text itself. */
+  | { sourceMap: string };
+
+/**
+ * Finds the source map with a debug ID, or returns `null` when it doesn't
+ * know it.  `chunkUrl` is the URL of the chunk the ID was read from.
+ */
+export type DebugIdLookup = (
+  debugId: string,
+  chunkUrl: string
+) => DebugIdLookupResult | null | Promise<DebugIdLookupResult | null>;
+
+let _lookup: DebugIdLookup | undefined;
+
+/** Debug IDs are UUIDs, compared case-insensitively. */
+function normalizeDebugId(debugId: string): string {
+  return debugId.toLowerCase();
+}
+
+/** Returns the `//# debugId=…` of a chunk, or `null` when it has none. */
+export function extractDebugId(sourceContent: string): string | null {
+  const lines = sourceContent.split('\n');
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - 10); i--) {
+    const match = lines[i].trim().match(/^\/\/[@#]\s*debugId=([0-9a-fA-F-]+)$/);
+    if (match) return normalizeDebugId(match[1]);
+  }
+  return null;
+}
+
+/**
+ * Returns the `debugId` of a source map's text (`debug_id` in early
+ * implementations), or `null` when it has none.  The text is scanned rather
+ * than parsed — maps can be megabytes, and the resolver parses them later,
+ * possibly in the source map worker.  Keys inside `sourcesContent` strings
+ * don't match: their quotes are escaped.
+ */
+export function getSourceMapDebugId(sourceMap: string): string | null {
+  const match = sourceMap.match(/"debug_?[iI]d"\s*:\s*"([0-9a-fA-F-]+)"/);
+  return match ? normalizeDebugId(match[1]) : null;
+}
+
+/** Whether the debug IDs of a chunk and a source map rule out that they belong together. */
+export function isDebugIdMismatch(chunkDebugId: string | null, sourceMap: string): boolean {
+  if (!chunkDebugId) return false;
+  const mapDebugId = getSourceMapDebugId(sourceMap);
+  return mapDebugId !== null && mapDebugId !== chunkDebugId;
+}
+
+/**
+ * Looks up maps as `<baseUrl>/<debugId>.map` — a directory of maps named by
+ * debug ID, served by the dev server or a symbol store.
+ */
+export function debugIdDirectory(baseUrl: string): DebugIdLookup {
+  const base = baseUrl.replace(/\/+$/, '');
+  return (debugId) => ({ url: `${base}/${debugId}.map` });
+}
+
+export interface DebugIdRegistry {
+  /** Adds a source map, under the debug ID it carries.  Throws for maps without one. */
+  register(sourceMap: string): void;
+  lookup: DebugIdLookup;
+}
+
+/** An in-memory registry of source maps, for maps that aren't served anywhere. */
+export function createDebugIdRegistry(): DebugIdRegistry {
+  const maps = new Map<string, string>();
+  return {
+    register(sourceMap) {
+      const debugId = getSourceMapDebugId(sourceMap);
+      if (!debugId) throw new Error('Source map has no debugId');
+      maps.set(debugId, sourceMap);
+    },
+    lookup(debugId) {
+      const sourceMap = maps.get(debugId);
+      return sourceMap === undefined ? null : { sourceMap };
+    },
+  };
+}
+
+/**
+ * Sets how source maps are looked up by debug ID.  Lookups are tried before
+ * the `sourceMappingURL` and source map locator of a chunk; pass `undefined`
+ * to remove it.
+ */
+export function configureDebugIdLookup(lookup: DebugIdLookup | undefined): void {
+  _lookup = lookup;
+}
+
+/** @internal — the configured lookup */
+export function getDebugIdLookup(): DebugIdLookup | undefined {
+  return _lookup;
+}
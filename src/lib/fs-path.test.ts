@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { fileUrlToPath, isWindowsAbsolutePath, normalizeFsPath, toEditorUrl } from './fs-path';
+
+describe('normalizeFsPath', () => {
+  it.each([
+    ['/Users/me/project/', '/Users/me/project'],
+    ['C:\\Users\\me\\project\\', 'C:/Users/me/project'],
+    ['/C:/Users/me/project', 'C:/Users/me/project'],
+    ['\\\\wsl$\\Ubuntu\\home\\me', '//wsl$/Ubuntu/home/me'],
+    ['src\\Foo.tsx', 'src/Foo.tsx'],
+  ])('%s → %s', (path, expected) => {
+    expect(normalizeFsPath(path)).toBe(expected);
+  });
+});
+
+describe('fileUrlToPath', () => {
+  it.each([
+    ['file:///Users/me/x.ts', '/Users/me/x.ts'],
+    ['file:///C:/Users/me/x.ts', 'C:/Users/me/x.ts'],
+    ['file://localhost/Users/me/x.ts', '/Users/me/x.ts'],
+    ['file://wsl$/Ubuntu/home/me/x.ts', '//wsl$/Ubuntu/home/me/x.ts'],
+    ['file://wsl.localhost/Ubuntu/home/me/x.ts', '//wsl.localhost/Ubuntu/home/me/x.ts'],
+  ])('%s → %s', (url, expected) => {
+    expect(fileUrlToPath(url)).toBe(expected);
+  });
+});
+
+describe('isWindowsAbsolutePath', () => {
+  it.each([
+    ['C:\\Users\\me', true],
+    ['c:/Users/me', true],
+    ['\\\\wsl$\\Ubuntu', true],
+    ['/Users/me', false],
+    ['src/Foo.tsx', false],
+    ['http://localhost:3000/app.js', false],
+  ])('%s → %s', (path, expected) => {
+    expect(isWindowsAbsolutePath(path)).toBe(expected);
+  });
+});
+
+describe('toEditorUrl', () => {
+  it.each([
+    ['/Users/me/project/src/App.tsx', 'cursor://file/Users/me/project/src/App.tsx:12:5'],
+    ['C:/Users/me/project/src/App.tsx', 'cursor://file/C:/Users/me/project/src/App.tsx:12:5'],
+    ['//wsl$/Ubuntu/home/me/src/App.tsx', 'cursor://file//wsl$/Ubuntu/home/me/src/App.tsx:12:5'],
+    [
+      'C:/Users/me/My Project/app/(shop)/[id]/page.tsx',
+      'cursor://file/C:/Users/me/My%20Project/app/(shop)/%5Bid%5D/page.tsx:12:5',
+    ],
+    ['src/App.tsx', 'cursor://file/src/App.tsx:12:5'],
+  ])('%s → %s', (path, expected) => {
+    expect(toEditorUrl('cursor', path, 12, 5)).toBe(expected);
+  });
+});
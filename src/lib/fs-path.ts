@@ -0,0 +1,69 @@
+// ─── Filesystem paths ───────────────────────────────────────────────────────
+// Resolved sources are filesystem paths in one of three shapes:
+//
+//   POSIX           /Users/me/project/src/App.tsx
+//   Windows drive   C:/Users/me/project/src/App.tsx     (or C:\Users\me\…)
+//   UNC             //wsl$/Ubuntu/home/me/project/…     (or \\wsl$\Ubuntu\…)
+//
+// Paths are normalized to forward slashes: Windows accepts them, they join
+// cleanly with the URL paths source maps contain, and editor URLs need them.
+
+const DRIVE_PATH_RE = /^[A-Za-z]:[\\/]/;
+const DRIVE_SEGMENT_RE = /^[A-Za-z]:$/;
+
+/** `C:\…`, `C:/…` or a backslash UNC path (`\\server\share\…`). */
+export function isWindowsAbsolutePath(path: string): boolean {
+  return DRIVE_PATH_RE.test(path) || path.startsWith('\\\\');
+}
+
+/**
+ * Normalizes a filesystem path: backslashes become `/`, the `/C:/` form left
+ * over from `file:///C:/…` URLs becomes `C:/`, and trailing separators are
+ * removed so roots join cleanly with `/…` paths.
+ */
+export function normalizeFsPath(path: string): string {
+  let normalized = path.replace(/\\/g, '/');
+  if (/^\/[A-Za-z]:\//.test(normalized)) normalized = normalized.slice(1);
+  return normalized.replace(/\/+$/, '');
+}
+
+/**
+ * Converts a `file://` URL to a filesystem path:
+ *   file:///Users/me/x.ts       → /Users/me/x.ts
+ *   file:///C:/Users/me/x.ts    → C:/Users/me/x.ts
+ *   file://wsl$/Ubuntu/x.ts     → //wsl$/Ubuntu/x.ts
+ */
+export function fileUrlToPath(url: string): string {
+  const rest = url.replace(/^file:\/\//, '');
+  if (rest.startsWith('/')) return normalizeFsPath(rest);
+
+  // A host names a UNC share, except for the "localhost" alias
+  const slash = rest.indexOf('/');
+  const host = slash < 0 ? rest : rest.slice(0, slash);
+  if (host === 'localhost') return normalizeFsPath(rest.slice(host.length));
+  return normalizeFsPath(`//${rest}`);
+}
+
+/**
+ * Builds the editor URL for a (normalized) filesystem path, in the format
+ * VS Code and its forks register for:
+ *   cursor://file/Users/me/x.ts:12:5
+ *   cursor://file/C:/Users/me/x.ts:12:5
+ *   cursor://file//wsl$/Ubuntu/home/me/x.ts:12:5
+ *
+ * Each path segment is URI-encoded (parentheses, brackets, spaces, #, …) —
+ * except the drive letter, whose `:` the editors expect verbatim.
+ */
+export function toEditorUrl(scheme: string, path: string, line: number, column: number): string {
+  const urlPath = path.startsWith('/') ? path : `/${path}`;
+  const encodedPath = urlPath
+    .split('/')
+    .map((segment, index) =>
+      index === 1 && DRIVE_SEGMENT_RE.test(segment)
+        ? segment
+        : // `$` is legal in URL paths and part of the `\\wsl$\` share name
+          encodeURIComponent(segment).replace(/%24/g, '$')
+    )
+    .join('/');
+  return `${scheme}://file${encodedPath}:${line}:${column}`;
+}
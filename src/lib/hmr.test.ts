@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  type ViteUpdatePayload,
+  subscribeToHmr,
+  vitePathPredicate,
+  webpackChunkPredicate,
+} from './hmr';
+
+describe('vitePathPredicate', () => {
+  it('matches module URLs by path, whatever their timestamp', () => {
+    const matches = vitePathPredicate(['/src/App.tsx']);
+    expect(matches('http://localhost:5173/src/App.tsx')).toBe(true);
+    expect(matches('http://localhost:5173/src/App.tsx?t=1712345678901')).toBe(true);
+    expect(matches('http://localhost:5173/src/App.tsx.map')).toBe(false);
+    expect(matches('http://localhost:5173/src/main.tsx')).toBe(false);
+  });
+});
+
+describe('webpackChunkPredicate', () => {
+  it('matches the chunks named by hot-update files', () => {
+    const matches = webpackChunkPredicate([
+      'http://localhost:3000/_next/static/webpack/app/layout.1f2e3d4c5b6a7980.hot-update.js',
+      'http://localhost:8080/main.0a1b2c3d4e5f.hot-update.js',
+    ]);
+    expect(matches?.('http://localhost:3000/_next/static/chunks/app/layout.js')).toBe(true);
+    expect(matches?.('http://localhost:8080/main.js')).toBe(true);
+    expect(matches?.('http://localhost:8080/main.3f2a1b9c.js')).toBe(true);
+    expect(matches?.('http://localhost:3000/_next/static/chunks/app/page.js')).toBe(false);
+    expect(matches?.('http://localhost:8080/vendors-main.js')).toBe(false);
+  });
+
+  it('returns undefined when no chunk can be identified', () => {
+    expect(webpackChunkPredicate(['http://localhost:8080/update.js'])).toBeUndefined();
+  });
+});
+
+describe('subscribeToHmr', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('invalidates the modules listed by vite:beforeUpdate', () => {
+    let listener: ((payload: ViteUpdatePayload) => void) | undefined;
+    const hot = {
+      on: vi.fn((_event: string, callback: (payload: ViteUpdatePayload) => void) => {
+        listener = callback;
+      }),
+      off: vi.fn(),
+    };
+    const invalidate = vi.fn();
+
+    const unsubscribe = subscribeToHmr(hot, invalidate);
+    listener?.({ updates: [{ path: '/src/App.tsx', acceptedPath: '/src/App.tsx' }] });
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    const [matches] = invalidate.mock.calls[0];
+    expect(matches('http://localhost:5173/src/App.tsx?t=1')).toBe(true);
+    expect(matches('http://localhost:5173/src/Other.tsx')).toBe(false);
+
+    unsubscribe();
+    expect(hot.off).toHaveBeenCalledWith('vite:beforeUpdate', listener);
+  });
+
+  it('invalidates the chunks of a webpack update once it was applied', () => {
+    const entries = [{ name: 'http://localhost:8080/main.0a1b2c.hot-update.js' }];
+    vi.stubGlobal('performance', { getEntriesByType: () => entries });
+    let onStatus: ((status: string) => void) | undefined;
+    const hot = {
+      addStatusHandler: (callback: (status: string) => void) => {
+        onStatus = callback;
+      },
+      removeStatusHandler: vi.fn(),
+    };
+    const invalidate = vi.fn();
+
+    subscribeToHmr(hot, invalidate);
+    // Hot-update files from before the subscription are not attributed to the next update
+    onStatus?.('idle');
+    expect(invalidate).not.toHaveBeenCalled();
+
+    entries.push({ name: 'http://localhost:8080/main.9f8e7d.hot-update.js' });
+    onStatus?.('apply');
+    onStatus?.('idle');
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    const [matches] = invalidate.mock.calls[0];
+    expect(matches('http://localhost:8080/main.js')).toBe(true);
+    expect(matches('http://localhost:8080/vendors.js')).toBe(false);
+  });
+
+  it('does nothing without an HMR API', () => {
+    const invalidate = vi.fn();
+    expect(() => subscribeToHmr(undefined, invalidate)()).not.toThrow();
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { isWebpackInternalUrl } from './webpack-eval';
+
+// ─── HMR invalidation ───────────────────────────────────────────────────────
+// After a hot update the resolver caches can hold code that no longer runs:
+//
+//   - webpack serves the new code under the same chunk URL
+//   - Vite serves updated modules as `?t=<timestamp>` URLs, while entries for
+//     the previous URL of the module stay cached
+//
+// `subscribeToHmr` listens for the bundler's HMR signals and evicts the
+// entries of the updated files via `clearCaches(urlPredicate)`:
+//
+//   - Vite: `import.meta.hot` only exists in modules Vite transforms itself —
+//     not in a pre-bundled dependency like this one — so the app passes it in
+//     (`<ShowComponent hot={import.meta.hot} />`).  `vite:beforeUpdate`
+//     lists the updated module paths.
+//   - webpack: every module, including this one, gets `module.hot`.  Its
+//     status handler reports applied updates; the `*.hot-update.js` files
+//     fetched for an update name the chunks it touched.  Modules evaluated
+//     by the `eval*` devtools (`webpack-internal:///…` frames) are dropped
+//     on every update, since the update files replace them.
+
+/** The part of Vite's `import.meta.hot` used here. */
+export interface ViteHotContext {
+  on(event: 'vite:beforeUpdate', callback: (payload: ViteUpdatePayload) => void): void;
+  off?(event: 'vite:beforeUpdate', callback: (payload: ViteUpdatePayload) => void): void;
+}
+
+export interface ViteUpdatePayload {
+  updates: Array<{ path: string; acceptedPath?: string }>;
+}
+
+/** The part of webpack's `module.hot` / `import.meta.webpackHot` used here. */
+export interface WebpackHotModule {
+  addStatusHandler(callback: (status: string) => void): void;
+  removeStatusHandler(callback: (status: string) => void): void;
+}
+
+export type HotContext = ViteHotContext | WebpackHotModule;
+
+type Invalidate = (urlPredicate: (url: string) => boolean) => void;
+
+function pathnameOf(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url;
+  }
+}
+
+/** Matches chunk URLs of the given Vite module paths, whatever their `?t=` query. */
+/** @internal — exported for testing */
+export function vitePathPredicate(paths: ReadonlyArray<string>): (url: string) => boolean {
+  const updated = new Set(paths.map(pathnameOf));
+  return (url) => updated.has(pathnameOf(url));
+}
+
+/**
+ * Matches the chunks named by webpack hot-update files:
+ * `/static/webpack/app/layout.3f2a1b.hot-update.js` updates chunk `app/layout`,
+ * served as e.g. `/_next/static/chunks/app/layout.js`.  Returns `undefined`
+ * when no chunk could be identified.
+ */
+/** @internal — exported for testing */
+export function webpackChunkPredicate(
+  hotUpdateUrls: ReadonlyArray<string>
+): ((url: string) => boolean) | undefined {
+  const chunkIds: string[] = [];
+  for (const hotUpdateUrl of hotUpdateUrls) {
+    const match = pathnameOf(hotUpdateUrl).match(/\/([^/]+)\.[0-9a-f]+\.hot-update\.js$/);
+    if (match) chunkIds.push(match[1]);
+  }
+  if (chunkIds.length === 0) return undefined;
+
+  return (url) => {
+    // Drop the extension and an optional content hash: "layout.3f2a1b.js" → "layout"
+    const chunkPath = pathnameOf(url).replace(/(?:\.[0-9a-f]{6,})?\.js$/, '');
+    return chunkIds.some((id) => chunkPath === `/${id}` || chunkPath.endsWith(`/${id}`));
+  };
+}
+
+function collectHotUpdateUrls(seen: Set<string>): string[] {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') {
+    return [];
+  }
+  const urls: string[] = [];
+  for (const entry of performance.getEntriesByType('resource')) {
+    if (!seen.has(entry.name) && /\.hot-update\.js(?:$|\?)/.test(entry.name)) {
+      seen.add(entry.name);
+      urls.push(entry.name);
+    }
+  }
+  return urls;
+}
+
+function subscribeToVite(hot: ViteHotContext, invalidate: Invalidate): () => void {
+  const onUpdate = (payload: ViteUpdatePayload) => {
+    const paths: string[] = [];
+    for (const update of payload.updates) {
+      paths.push(update.path);
+      if (update.acceptedPath && update.acceptedPath !== update.path) {
+        paths.push(update.acceptedPath);
+      }
+    }
+    if (paths.length > 0) invalidate(vitePathPredicate(paths));
+  };
+  hot.on('vite:beforeUpdate', onUpdate);
+  return () => hot.off?.('vite:beforeUpdate', onUpdate);
+}
+
+function subscribeToWebpack(hot: WebpackHotModule, invalidate: Invalidate): () => void {
+  const seen = new Set<string>();
+  // Hot-update files fetched before we subscribed belong to earlier updates
+  collectHotUpdateUrls(seen);
+  const onStatus = (status: string) => {
+    // "idle" follows every check; only checks that fetched update chunks matter
+    if (status !== 'idle') return;
+    const hotUpdateUrls = collectHotUpdateUrls(seen);
+    if (hotUpdateUrls.length === 0) return;
+    // Unknown chunk naming — drop every chunk rather than serve stale maps
+    const updatedChunk = webpackChunkPredicate(hotUpdateUrls) ?? (() => true);
+    invalidate((url) => isWebpackInternalUrl(url) || updatedChunk(url));
+  };
+  hot.addStatusHandler(onStatus);
+  return () => hot.removeStatusHandler(onStatus);
+}
+
+// Declared by webpack for every module; absent in other environments
+declare const module: { hot?: WebpackHotModule } | undefined;
+
+function getWebpackHot(): WebpackHotModule | undefined {
+  try {
+    return typeof module !== 'undefined' && module?.hot ? module.hot : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Calls `invalidate` with a URL predicate matching the updated chunks after
+ * every hot update.  Uses `hot` when given (Vite's `import.meta.hot` or
+ * webpack's `module.hot`), and webpack's own `module.hot` otherwise.  Returns
+ * an unsubscribe function.
+ */
+export function subscribeToHmr(hot: HotContext | undefined, invalidate: Invalidate): () => void {
+  const context = hot ?? getWebpackHot();
+  if (!context) return () => {};
+  if ('addStatusHandler' in context) return subscribeToWebpack(context, invalidate);
+  return subscribeToVite(context, invalidate);
+}
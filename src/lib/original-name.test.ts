@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { findDefinition } from './original-name';
+
+describe('findDefinition', () => {
+  it('finds function, class and variable definitions', () => {
+    expect(findDefinition('x();function t(e){}', 't', 1, 0)).toEqual({ line: 1, column: 13 });
+    expect(findDefinition('class t extends n{}', 't', 1, 0)).toEqual({ line: 1, column: 6 });
+    expect(findDefinition('const t=e=>e', 't', 1, 0)).toEqual({ line: 1, column: 6 });
+    expect(findDefinition('var n=1,t=function(){}', 't', 1, 0)).toEqual({ line: 1, column: 8 });
+  });
+
+  it('prefers the nearest definition before the position', () => {
+    const code = ['function t(e){}', 'function t(e){', '  return n(e)', '}', 'function t(){}'].join(
+      '\n'
+    );
+    expect(findDefinition(code, 't', 3, 9)).toEqual({ line: 2, column: 9 });
+  });
+
+  it('falls back to the first definition after the position', () => {
+    expect(findDefinition('n(t);\nfunction t(){}', 't', 1, 0)).toEqual({ line: 2, column: 9 });
+  });
+
+  it('ignores calls, comparisons and longer identifiers', () => {
+    expect(findDefinition('t();a=t==1;function at(){}const tt=1', 't', 1, 0)).toBeNull();
+  });
+
+  it('handles `$` in names', () => {
+    expect(findDefinition('function a$(){}function $(){}', '$', 1, 0)).toEqual({
+      line: 1,
+      column: 24,
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// ─── Original names ─────────────────────────────────────────────────────────
+// Minifiers rename components (`function ProfileCard()` → `function t()`)
+// and record the original identifier in the source map: the mapping at the
+// renamed identifier carries an index into the map's `names` array.  To
+// recover a component's name we locate its definition in the generated
+// chunk, then look that position up in the source map.
+//
+// Short names are reused across module scopes, so the definition nearest
+// before a frame inside the function's body is the best candidate:
+//
+//   function t(e){…}              ← another module's `t`
+//   function t(e){                ← definition picked for the frame below
+//     return jsx(n, {…})          ← frame inside the component
+//   }
+
+export interface GeneratedPosition {
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[$]/g, '\\$');
+}
+
+/**
+ * Finds the definition of `name` in generated code — a function or class
+ * declaration, or a variable it is assigned to — and returns the position of
+ * the identifier.  Prefers the last definition before `line:column`, falling
+ * back to the first one after it.  Returns `null` when there is none.
+ */
+export function findDefinition(
+  code: string,
+  name: string,
+  line: number,
+  column: number
+): GeneratedPosition | null {
+  const id = escapeRegExp(name);
+  const definitionRe = new RegExp(
+    [
+      `\\bfunction\\s*\\*?\\s*${id}\\s*\\(`,
+      `\\bclass\\s+${id}(?![\\w$])`,
+      `(?:\\b(?:const|let|var)\\s+|,\\s*)${id}\\s*=(?![=>])`,
+    ].join('|'),
+    'g'
+  );
+
+  const anchor = toOffset(code, line, column);
+  let found = -1;
+  for (let match = definitionRe.exec(code); match; match = definitionRe.exec(code)) {
+    const offset = match.index + match[0].lastIndexOf(name);
+    if (offset >= anchor) {
+      if (found < 0) found = offset;
+      break;
+    }
+    found = offset;
+  }
+  return found < 0 ? null : toPosition(code, found);
+}
+
+function toOffset(code: string, line: number, column: number): number {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const newline = code.indexOf('\n', offset);
+    if (newline < 0) return code.length;
+    offset = newline + 1;
+  }
+  return offset + column;
+}
+
+function toPosition(code: string, offset: number): GeneratedPosition {
+  let line = 1;
+  let lineStart = 0;
+  for (let newline = code.indexOf('\n'); newline >= 0 && newline < offset; ) {
+    line++;
+    lineStart = newline + 1;
+    newline = code.indexOf('\n', lineStart);
+  }
+  return { line, column: offset - lineStart };
+}
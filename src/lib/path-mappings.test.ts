@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyPathMappings, configurePathMappings } from './path-mappings';
+
+describe('applyPathMappings', () => {
+  afterEach(() => {
+    configurePathMappings(undefined);
+  });
+
+  it('returns the path unchanged without rules', () => {
+    expect(applyPathMappings('/app/src/Foo.tsx')).toBe('/app/src/Foo.tsx');
+  });
+
+  it('rewrites string prefixes on a path-segment boundary', () => {
+    configurePathMappings([{ from: '/app', to: '/home/me/work/project' }]);
+    expect(applyPathMappings('/app/src/Foo.tsx')).toBe('/home/me/work/project/src/Foo.tsx');
+    expect(applyPathMappings('/application/src/Foo.tsx')).toBe('/application/src/Foo.tsx');
+  });
+
+  it('treats a trailing slash in the prefix as a directory prefix', () => {
+    configurePathMappings([{ from: '/app/', to: '/home/me/project/' }]);
+    expect(applyPathMappings('/app/src/Foo.tsx')).toBe('/home/me/project/src/Foo.tsx');
+  });
+
+  it('applies RegExp rules with capture group references', () => {
+    configurePathMappings([{ from: /^\/workspaces\/([^/]+)\//g, to: '/Users/me/code/$1/' }]);
+    expect(applyPathMappings('/workspaces/shop/src/Cart.tsx')).toBe(
+      '/Users/me/code/shop/src/Cart.tsx'
+    );
+    // Global regexes keep state in lastIndex — the rule must still match next time
+    expect(applyPathMappings('/workspaces/blog/src/Post.tsx')).toBe(
+      '/Users/me/code/blog/src/Post.tsx'
+    );
+  });
+
+  it('uses the first matching rule', () => {
+    configurePathMappings([
+      { from: '/app/node_modules', to: '/deps' },
+      { from: '/app', to: '/project' },
+    ]);
+    expect(applyPathMappings('/app/node_modules/lib/index.js')).toBe('/deps/lib/index.js');
+    expect(applyPathMappings('/app/src/Foo.tsx')).toBe('/project/src/Foo.tsx');
+  });
+
+  it('matches Windows prefixes regardless of separator style', () => {
+    configurePathMappings([{ from: 'C:\\app', to: '\\\\wsl$\\Ubuntu\\home\\me\\app' }]);
+    expect(applyPathMappings('C:/app/src/Foo.tsx')).toBe(
+      '\\\\wsl$\\Ubuntu\\home\\me\\app/src/Foo.tsx'
+    );
+    expect(applyPathMappings('C:\\app\\src\\Foo.tsx')).toBe(
+      '\\\\wsl$\\Ubuntu\\home\\me\\app/src/Foo.tsx'
+    );
+  });
+});
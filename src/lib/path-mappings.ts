@@ -0,0 +1,81 @@
+// ─── Path mappings ──────────────────────────────────────────────────────────
+// Rewrites resolved source paths before they are handed to the editor —
+// e.g. when the dev server runs in Docker / a devcontainer / a remote host
+// and source maps contain `/app/src/...` while the editor needs
+// `/home/me/work/project/src/...`.
+//
+// Set via:
+//   1. configurePathMappings([{ from: '/app', to: '/home/me/project' }])  — programmatic
+//   2. <ShowComponent pathMappings={[…]} />                                — prop (calls #1)
+//
+// Rules are tried in order and the first match wins.  They run after source
+// resolution (including `sourceRoot`), right before the editor URL is built.
+
+/**
+ * A single rewrite rule.
+ *
+ * - String `from`: prefix match on a path-segment boundary — `/app` rewrites
+ *   `/app/src/Foo.tsx` but not `/application/Foo.tsx`.
+ * - RegExp `from`: `path.replace(from, to)`, so `to` may use `$1`-style
+ *   references to capture groups.
+ */
+export interface PathMapping {
+  from: string | RegExp;
+  to: string;
+}
+
+let _pathMappings: PathMapping[] = [];
+
+export function configurePathMappings(mappings: PathMapping[] | undefined): void {
+  _pathMappings = mappings ? mappings.slice() : [];
+}
+
+function matchesPrefix(path: string, prefix: string): boolean {
+  if (prefix.endsWith('/')) return path.startsWith(prefix);
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Applies the configured path mappings to a resolved source path.  Returns the
+ * path unchanged when no rule matches.
+ */
+export function applyPathMappings(path: string, debug?: boolean): string {
+  for (let i = 0; i < _pathMappings.length; i++) {
+    const rule = _pathMappings[i];
+    let mapped: string | undefined;
+
+    if (typeof rule.from === 'string') {
+      // Compare with forward slashes so `C:\project` matches `C:/project/src/…`
+      const from = rule.from.replace(/\\/g, '/');
+      const subject = path.replace(/\\/g, '/');
+      if (from && matchesPrefix(subject, from)) {
+        mapped = rule.to + subject.slice(from.length);
+      }
+    } else {
+      // Reset lastIndex so /g and /y rules behave the same on every call
+      rule.from.lastIndex = 0;
+      if (rule.from.test(path)) {
+        rule.from.lastIndex = 0;
+        mapped = path.replace(rule.from, rule.to);
+      }
+    }
+
+    if (mapped !== undefined) {
+      if (debug) {
+        console.log('[show-component] Path mapping matched:', {
+          rule: i,
+          from: String(rule.from),
+          to: rule.to,
+          path,
+          mapped,
+        });
+      }
+      return mapped;
+    }
+  }
+
+  if (debug && _pathMappings.length > 0) {
+    console.log('[show-component] No path mapping matched:', path);
+  }
+  return path;
+}
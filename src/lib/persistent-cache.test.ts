@@ -0,0 +1,212 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  computeFingerprint,
+  configurePersistentCache,
+  getPersistedSourceMap,
+  isPersistentCacheEnabled,
+  toPersistentKey,
+} from './persistent-cache';
+
+describe('computeFingerprint', () => {
+  it('prefers the ETag when the server sent one', () => {
+    expect(computeFingerprint('// chunk', 'W/"abc-123"')).toBe('etag:W/"abc-123"');
+  });
+
+  it('hashes the content when there is no ETag', () => {
+    const a = computeFingerprint('export const a = 1;');
+    expect(a).toMatch(/^fnv:[0-9a-f]+:19$/);
+    expect(computeFingerprint('export const a = 1;', null)).toBe(a);
+    expect(computeFingerprint('export const a = 2;')).not.toBe(a);
+  });
+});
+
+describe('toPersistentKey', () => {
+  it('drops the query string and hash', () => {
+    expect(toPersistentKey('http://localhost:5173/src/App.tsx?t=1712345')).toBe(
+      'http://localhost:5173/src/App.tsx'
+    );
+    expect(toPersistentKey('http://localhost/app.js#L1')).toBe('http://localhost/app.js');
+    expect(toPersistentKey('http://localhost/app.js')).toBe('http://localhost/app.js');
+  });
+});
+
+describe('configurePersistentCache', () => {
+  afterEach(() => {
+    configurePersistentCache(false);
+  });
+
+  it('stays disabled when IndexedDB is unavailable', async () => {
+    configurePersistentCache(true);
+    expect(typeof indexedDB).toBe('undefined');
+    expect(isPersistentCacheEnabled()).toBe(false);
+    await expect(getPersistedSourceMap('http://localhost/app.js', 'etag:x')).resolves.toBeNull();
+  });
+});
+
+describe('persisted entries', () => {
+  let cache: typeof import('./persistent-cache');
+  const result = { source: '/src/App.tsx', line: 3, column: 5 };
+  const persisted = { result, rawSource: 'App.tsx' };
+
+  beforeEach(async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+    cache = await import('./persistent-cache');
+    cache.configurePersistentCache(true);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns a stored source map for the same fingerprint', async () => {
+    await cache.putPersistedSourceMap('http://localhost/app.js', 'fnv:1', '{"version":3}');
+    await expect(cache.getPersistedSourceMap('http://localhost/app.js', 'fnv:1')).resolves.toBe(
+      '{"version":3}'
+    );
+  });
+
+  it('shares one entry across cache-busting query strings', async () => {
+    await cache.putPersistedSourceMap('http://localhost/src/App.tsx?t=1', 'fnv:1', '{"a":1}');
+    await cache.putPersistedSourceMap('http://localhost/src/App.tsx?t=2', 'fnv:2', '{"a":2}');
+    await expect(
+      cache.getPersistedSourceMap('http://localhost/src/App.tsx?t=3', 'fnv:2')
+    ).resolves.toBe('{"a":2}');
+  });
+
+  it('drops a stale source map and the results derived from it', async () => {
+    const url = 'http://localhost/app.js';
+    await cache.putPersistedSourceMap(url, 'fnv:1', '{"version":3}');
+    await cache.putPersistedResult(url, 10, 4, 'fnv:1', result, 'App.tsx');
+    await expect(cache.getPersistedResult(url, 10, 4, 'fnv:1')).resolves.toEqual(persisted);
+
+    await expect(cache.getPersistedSourceMap(url, 'fnv:2')).resolves.toBeNull();
+    await expect(cache.getPersistedSourceMap(url, 'fnv:1')).resolves.toBeNull();
+    await expect(cache.getPersistedResult(url, 10, 4, 'fnv:1')).resolves.toBeNull();
+  });
+
+  it('ignores a result stored for another fingerprint', async () => {
+    await cache.putPersistedResult('http://localhost/app.js?v=1', 1, 0, 'fnv:1', result, 'App.tsx');
+    await expect(
+      cache.getPersistedResult('http://localhost/app.js?v=2', 1, 0, 'fnv:2')
+    ).resolves.toBeNull();
+  });
+
+  it('evicts the least recently used source map beyond the cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      for (let i = 0; i < 50; i++) {
+        vi.setSystemTime(i);
+        await cache.putPersistedSourceMap(`http://localhost/chunk-${i}.js`, 'fnv:1', '{}');
+      }
+      await cache.putPersistedResult(
+        'http://localhost/chunk-1.js',
+        1,
+        0,
+        'fnv:1',
+        result,
+        'App.tsx'
+      );
+      // Touch chunk-0 so chunk-1 becomes the least recently used entry
+      vi.setSystemTime(100);
+      await cache.getPersistedSourceMap('http://localhost/chunk-0.js', 'fnv:1');
+      vi.setSystemTime(101);
+      await cache.putPersistedSourceMap('http://localhost/chunk-50.js', 'fnv:1', '{}');
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await expect(
+      cache.getPersistedSourceMap('http://localhost/chunk-1.js', 'fnv:1')
+    ).resolves.toBeNull();
+    await expect(
+      cache.getPersistedResult('http://localhost/chunk-1.js', 1, 0, 'fnv:1')
+    ).resolves.toBeNull();
+    await expect(cache.getPersistedSourceMap('http://localhost/chunk-0.js', 'fnv:1')).resolves.toBe(
+      '{}'
+    );
+    await expect(
+      cache.getPersistedSourceMap('http://localhost/chunk-50.js', 'fnv:1')
+    ).resolves.toBe('{}');
+  });
+
+  it('stores results without their source content', async () => {
+    const url = 'http://localhost/app.js';
+    await cache.putPersistedResult(
+      url,
+      1,
+      0,
+      'fnv:1',
+      { ...result, sourceContent: 'export function App() {}' },
+      'App.tsx'
+    );
+    await expect(cache.getPersistedResult(url, 1, 0, 'fnv:1')).resolves.toEqual(persisted);
+  });
+
+  it('keeps only the most recently stored results of a map', async () => {
+    const url = 'http://localhost/app.js';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      for (let line = 1; line <= 201; line++) {
+        vi.setSystemTime(line);
+        await cache.putPersistedResult(url, line, 0, 'fnv:1', result, 'App.tsx');
+      }
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await expect(cache.getPersistedResult(url, 1, 0, 'fnv:1')).resolves.toBeNull();
+    await expect(cache.getPersistedResult(url, 2, 0, 'fnv:1')).resolves.toEqual(persisted);
+    await expect(cache.getPersistedResult(url, 201, 0, 'fnv:1')).resolves.toEqual(persisted);
+  });
+
+  it('rebuilds the source content of a persisted result from the persisted map', async () => {
+    const map = JSON.stringify({
+      version: 3,
+      sources: ['App.tsx'],
+      sourcesContent: ['export function App() {}\n'],
+      names: [],
+      mappings: 'AAAA',
+    });
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve({
+        ok: true,
+        headers: new Headers({ etag: '"v1"' }),
+        text: () => Promise.resolve(url.endsWith('.map') ? map : '//# sourceMappingURL=app.js.map'),
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const frame = 'at App (http://localhost:3000/src/app.js:1:0)';
+
+    const first = await import('./source-location-resolver');
+    const resolved = await first.resolveLocation(frame);
+    expect(resolved?.sourceContent).toBe('export function App() {}\n');
+    // Writes to IndexedDB are not awaited by the resolver
+    await vi.waitFor(async () =>
+      expect(
+        await cache.getPersistedResult('http://localhost:3000/src/app.js', 1, 0, 'etag:"v1"')
+      ).not.toBeNull()
+    );
+
+    // A page reload: fresh in-memory caches, same IndexedDB
+    vi.resetModules();
+    (await import('./persistent-cache')).configurePersistentCache(true);
+    const second = await import('./source-location-resolver');
+    await expect(second.resolveLocation(frame)).resolves.toEqual(resolved);
+    // Only the chunk is refetched; the map comes from IndexedDB
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:3000/src/app.js',
+      'http://localhost:3000/src/app.js.map',
+      'http://localhost:3000/src/app.js',
+    ]);
+  });
+
+  it('clearPersistentCache removes every entry', async () => {
+    await cache.putPersistedSourceMap('http://localhost/app.js', 'fnv:1', '{}');
+    await cache.clearPersistentCache();
+    await expect(
+      cache.getPersistedSourceMap('http://localhost/app.js', 'fnv:1')
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,312 @@
+import type { ResolvedSourceInfo } from './source-location-resolver';
+
+// ─── Persistent (IndexedDB) cache ───────────────────────────────────────────
+// The in-memory caches in source-location-resolver.ts are lost on every full
+// page reload, so the first click after a reload re-downloads every source
+// map.  When enabled, this layer keeps source maps and resolved results in
+// IndexedDB across reloads.
+//
+// Entries are keyed by the chunk URL without its query string, so Vite's
+// `?t=` / `?v=` cache busters map every version of a chunk onto one entry.
+// Every entry records the fingerprint (ETag or content hash) of the chunk it
+// was derived from.  A lookup with a different fingerprint means the chunk
+// was rebuilt: the stale entry — and every result derived from that chunk —
+// is deleted.  At most MAX_PERSISTED_SOURCE_MAPS maps are kept; the least
+// recently used one is evicted (with its results) beyond that.  Each map
+// keeps its MAX_PERSISTED_RESULTS_PER_MAP most recently stored results.
+//
+// Results are stored without their `sourceContent` — the original file is
+// already in the persisted map, so the resolver rebuilds it from there
+// instead of storing a copy per resolved position.
+//
+// Enable via:
+//   1. configurePersistentCache(true)       — programmatic
+//   2. <ShowComponent persistentCache />     — prop (calls #1)
+//
+// All operations are best-effort: IndexedDB failures (private browsing,
+// quota, blocked upgrades) degrade to a cache miss, never to an error.
+
+const DB_NAME = 'show-component';
+const DB_VERSION = 3;
+const SOURCE_MAP_STORE = 'sourceMaps';
+const RESULT_STORE = 'results';
+const MAX_PERSISTED_SOURCE_MAPS = 50;
+const MAX_PERSISTED_RESULTS_PER_MAP = 200;
+
+interface PersistedSourceMap {
+  /** Chunk URL without query string or hash — see `toPersistentKey`. */
+  key: string;
+  fingerprint: string;
+  sourceMapContent: string;
+  lastUsed: number;
+}
+
+/** A persisted result: the resolved location without its `sourceContent`. */
+export interface PersistedLocation {
+  result: Omit<ResolvedSourceInfo, 'sourceContent'>;
+  /** The source as the map names it, to look its content up in the map. */
+  rawSource: string;
+}
+
+interface PersistedResult extends PersistedLocation {
+  key: string;
+  mapKey: string;
+  fingerprint: string;
+  storedAt: number;
+}
+
+let _enabled = false;
+let _db: Promise<IDBDatabase | null> | undefined;
+
+export function configurePersistentCache(enabled: boolean | undefined): void {
+  _enabled = !!enabled;
+}
+
+/** Returns `true` when the persistent layer is enabled and IndexedDB exists. */
+export function isPersistentCacheEnabled(): boolean {
+  return _enabled && typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Fingerprints a fetched chunk: the ETag when the server sent one, otherwise
+ * a 32-bit FNV-1a hash of the content (plus its length, to make collisions
+ * between rebuilds even less likely).
+ */
+export function computeFingerprint(content: string, etag?: string | null): string {
+  if (etag) return `etag:${etag}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv:${(hash >>> 0).toString(16)}:${content.length}`;
+}
+
+/**
+ * Strips the query string and hash from a chunk URL.  The fingerprint, not
+ * the URL, tells two versions of the same chunk apart.
+ */
+export function toPersistentKey(url: string): string {
+  const end = url.search(/[?#]/);
+  return end === -1 ? url : url.slice(0, end);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!_db) {
+    _db = new Promise<IDBDatabase | null>((resolve) => {
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Version 1 keyed entries by the full URL and version 2 stored results with
+          // their source content; neither is worth migrating
+          for (const name of [SOURCE_MAP_STORE, RESULT_STORE]) {
+            if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+          }
+          const sourceMaps = db.createObjectStore(SOURCE_MAP_STORE, { keyPath: 'key' });
+          sourceMaps.createIndex('lastUsed', 'lastUsed');
+          const results = db.createObjectStore(RESULT_STORE, { keyPath: 'key' });
+          results.createIndex('mapKey', 'mapKey');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return _db;
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Deletes the source map stored under `mapKey` and every result derived from it. */
+async function deleteSourceMapEntry(db: IDBDatabase, mapKey: string): Promise<void> {
+  const tx = db.transaction([SOURCE_MAP_STORE, RESULT_STORE], 'readwrite');
+  tx.objectStore(SOURCE_MAP_STORE).delete(mapKey);
+  const results = tx.objectStore(RESULT_STORE);
+  const keys = await requestToPromise(results.index('mapKey').getAllKeys(mapKey));
+  for (const key of keys) {
+    results.delete(key);
+  }
+  await transactionDone(tx);
+}
+
+/** Evicts the least recently used source maps (and their results) beyond the cap. */
+async function evictLeastRecentlyUsed(db: IDBDatabase): Promise<void> {
+  const store = db.transaction(SOURCE_MAP_STORE, 'readonly').objectStore(SOURCE_MAP_STORE);
+  const excess = (await requestToPromise(store.count())) - MAX_PERSISTED_SOURCE_MAPS;
+  if (excess <= 0) return;
+  const index = db
+    .transaction(SOURCE_MAP_STORE, 'readonly')
+    .objectStore(SOURCE_MAP_STORE)
+    .index('lastUsed');
+  const oldest = await requestToPromise(index.getAllKeys(null, excess));
+  for (const mapKey of oldest) {
+    await deleteSourceMapEntry(db, String(mapKey));
+  }
+}
+
+/**
+ * Returns the persisted source map for `url`, or `null` on a miss.
+ * An entry with a different fingerprint is stale and gets dropped along with
+ * the results derived from it.
+ */
+export async function getPersistedSourceMap(
+  url: string,
+  fingerprint: string
+): Promise<string | null> {
+  if (!isPersistentCacheEnabled()) return null;
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+    const key = toPersistentKey(url);
+    const store = db.transaction(SOURCE_MAP_STORE, 'readwrite').objectStore(SOURCE_MAP_STORE);
+    const entry: PersistedSourceMap | undefined = await requestToPromise(store.get(key));
+    if (!entry) return null;
+    if (entry.fingerprint !== fingerprint) {
+      await deleteSourceMapEntry(db, key);
+      return null;
+    }
+    store.put({ ...entry, lastUsed: Date.now() });
+    return entry.sourceMapContent;
+  } catch {
+    return null;
+  }
+}
+
+export async function putPersistedSourceMap(
+  url: string,
+  fingerprint: string,
+  sourceMapContent: string
+): Promise<void> {
+  if (!isPersistentCacheEnabled()) return;
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const key = toPersistentKey(url);
+    const store = db.transaction(SOURCE_MAP_STORE, 'readonly').objectStore(SOURCE_MAP_STORE);
+    const previous: PersistedSourceMap | undefined = await requestToPromise(store.get(key));
+    if (previous && previous.fingerprint !== fingerprint) {
+      // Results of the previous version would otherwise linger until looked up
+      await deleteSourceMapEntry(db, key);
+    }
+    const entry: PersistedSourceMap = { key, fingerprint, sourceMapContent, lastUsed: Date.now() };
+    await requestToPromise(
+      db.transaction(SOURCE_MAP_STORE, 'readwrite').objectStore(SOURCE_MAP_STORE).put(entry)
+    );
+    await evictLeastRecentlyUsed(db);
+  } catch {
+    // Quota exceeded or database closed — the in-memory cache still works
+  }
+}
+
+/** Returns the persisted result for a position in `url`, or `null` on a miss / stale entry. */
+export async function getPersistedResult(
+  url: string,
+  line: number,
+  column: number,
+  fingerprint: string
+): Promise<PersistedLocation | null> {
+  if (!isPersistentCacheEnabled()) return null;
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+    const key = `${toPersistentKey(url)}:${line}:${column}`;
+    const store = db.transaction(RESULT_STORE, 'readonly').objectStore(RESULT_STORE);
+    const entry: PersistedResult | undefined = await requestToPromise(store.get(key));
+    if (!entry) return null;
+    if (entry.fingerprint !== fingerprint) {
+      db.transaction(RESULT_STORE, 'readwrite').objectStore(RESULT_STORE).delete(key);
+      return null;
+    }
+    return { result: entry.result, rawSource: entry.rawSource };
+  } catch {
+    return null;
+  }
+}
+
+/** Deletes the oldest results of `mapKey` beyond MAX_PERSISTED_RESULTS_PER_MAP. */
+async function evictExcessResults(db: IDBDatabase, mapKey: string): Promise<void> {
+  const tx = db.transaction(RESULT_STORE, 'readwrite');
+  const results = tx.objectStore(RESULT_STORE);
+  const entries: PersistedResult[] = await requestToPromise(results.index('mapKey').getAll(mapKey));
+  const excess = entries.length - MAX_PERSISTED_RESULTS_PER_MAP;
+  if (excess > 0) {
+    entries.sort((a, b) => a.storedAt - b.storedAt);
+    for (const entry of entries.slice(0, excess)) results.delete(entry.key);
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Persists the result for a position in `url`.  `rawSource` is the source
+ * as the map names it; `result.sourceContent` is not stored.
+ */
+export async function putPersistedResult(
+  url: string,
+  line: number,
+  column: number,
+  fingerprint: string,
+  result: ResolvedSourceInfo,
+  rawSource: string
+): Promise<void> {
+  if (!isPersistentCacheEnabled()) return;
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const mapKey = toPersistentKey(url);
+    const { sourceContent: _omitted, ...location } = result;
+    const entry: PersistedResult = {
+      key: `${mapKey}:${line}:${column}`,
+      mapKey,
+      fingerprint,
+      storedAt: Date.now(),
+      result: location,
+      rawSource,
+    };
+    await requestToPromise(
+      db.transaction(RESULT_STORE, 'readwrite').objectStore(RESULT_STORE).put(entry)
+    );
+    await evictExcessResults(db, mapKey);
+  } catch {
+    // See putPersistedSourceMap
+  }
+}
+
+/**
+ * Removes every persisted entry.  Works even when the layer is disabled, so
+ * turning persistence off and calling `clearCaches()` leaves nothing behind.
+ */
+export async function clearPersistentCache(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    if (_db) {
+      const db = await _db;
+      if (db) {
+        const tx = db.transaction([SOURCE_MAP_STORE, RESULT_STORE], 'readwrite');
+        tx.objectStore(SOURCE_MAP_STORE).clear();
+        tx.objectStore(RESULT_STORE).clear();
+        await transactionDone(tx);
+        return;
+      }
+    }
+    await requestToPromise(indexedDB.deleteDatabase(DB_NAME));
+  } catch {
+    // Nothing persisted or the database is blocked by another tab
+  }
+}
@@ -0,0 +1,30 @@
+// ─── Raw source maps ────────────────────────────────────────────────────────
+// The shape of a source map as it comes out of `JSON.parse`, shared by the
+// main-thread pipeline and the source map worker.  Nothing here is
+// guaranteed: a map from the network may lack any field or hold the wrong
+// type, so readers check each field before relying on it.
+
+/** A section of an index map (Turbopack, some webpack configs). */
+export interface RawSourceMapSection {
+  offset?: { line: number; column: number };
+  map?: RawSourceMap;
+}
+
+/** A regular or index source map, see the Source Map v3 spec. */
+export interface RawSourceMap {
+  version?: number;
+  sourceRoot?: string;
+  sources?: (string | null)[];
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings?: string;
+  ignoreList?: number[];
+  /** Chrome's name for `ignoreList` before it was standardised. */
+  x_google_ignoreList?: number[];
+  sections?: RawSourceMapSection[];
+}
+
+/** Narrows parsed JSON to a map object; its fields are still unchecked. */
+export function isRawSourceMap(value: unknown): value is RawSourceMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
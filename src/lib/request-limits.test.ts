@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { raceAbort, requestWithLimits } from './request-limits';
+import { configureResolver } from './resolver-config';
+
+const hangingFetch = () => vi.fn(() => new Promise<Response>(() => {}));
+
+describe('requestWithLimits', () => {
+  afterEach(() => {
+    configureResolver(undefined);
+    vi.unstubAllGlobals();
+  });
+
+  it('is a plain fetch without limits', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve({ text: () => Promise.resolve('body') }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      requestWithLimits('http://localhost/a.js', undefined, undefined, (r) => r.text())
+    ).resolves.toBe('body');
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost/a.js');
+  });
+
+  it('uses the fetch set with configureResolver', async () => {
+    const globalFetch = vi.fn();
+    vi.stubGlobal('fetch', globalFetch);
+    const fetchMock = vi.fn(() => Promise.resolve({ text: () => Promise.resolve('body') }));
+    configureResolver({ fetch: fetchMock as unknown as typeof fetch });
+
+    await expect(
+      requestWithLimits('http://localhost/a.js', undefined, { timeout: 1000 }, (r) => r.text())
+    ).resolves.toBe('body');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  it('applies the configured request options and per-URL headers', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve({ text: () => Promise.resolve('body') }));
+    vi.stubGlobal('fetch', fetchMock);
+    const headers = vi.fn(async (url: string) =>
+      url.startsWith('https://preview.example.com/') ? { Authorization: 'Bearer token' } : undefined
+    );
+    configureResolver({
+      requestInit: { credentials: 'include', headers: { 'X-Client': 'show-component' } },
+      headers,
+    });
+
+    await requestWithLimits(
+      'https://preview.example.com/app.js.map',
+      { method: 'POST', headers: { 'Content-Type': 'application/json' } },
+      undefined,
+      (r) => r.text()
+    );
+    await requestWithLimits('http://localhost/a.js', undefined, undefined, (r) => r.text());
+
+    const calls = fetchMock.mock.calls as unknown as Array<[string, RequestInit]>;
+    expect(calls[0][1]).toMatchObject({ method: 'POST', credentials: 'include' });
+    expect(Object.fromEntries(new Headers(calls[0][1].headers))).toEqual({
+      authorization: 'Bearer token',
+      'content-type': 'application/json',
+      'x-client': 'show-component',
+    });
+    expect(Object.fromEntries(new Headers(calls[1][1].headers))).toEqual({
+      'x-client': 'show-component',
+    });
+    expect(headers).toHaveBeenCalledWith('http://localhost/a.js');
+  });
+
+  it('passes an abort signal to fetch and fails with a TimeoutError', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const request = requestWithLimits('http://localhost/a.js', undefined, { timeout: 10 }, (r) =>
+      r.text()
+    );
+
+    await expect(request).rejects.toMatchObject({ name: 'TimeoutError' });
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect(init.signal?.aborted).toBe(true);
+  });
+
+  it('rejects with an AbortError when the caller aborts', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const controller = new AbortController();
+
+    const request = requestWithLimits(
+      'http://localhost/a.js',
+      { method: 'POST' },
+      { signal: controller.signal },
+      (r) => r.text()
+    );
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('raceAbort', () => {
+  it('rejects immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(raceAbort(Promise.resolve(1), controller.signal)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+});
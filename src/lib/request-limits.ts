@@ -0,0 +1,110 @@
+import { buildRequestInit, getFetch } from './resolver-config';
+
+// ─── Request limits ─────────────────────────────────────────────────────────
+// Cancellation and timeouts for the network requests made while resolving a
+// location.  A hung chunk or map request (slow proxy, dev server mid-rebuild)
+// would otherwise block resolution forever.
+//
+//   - `timeout` applies to every single request (headers + body).  A request
+//     that takes longer fails like any other network error.
+//   - `signal` cancels the caller's resolution.  Loads shared between callers
+//     (chunk + source map, see `shareInFlight`) only honour the timeout, so
+//     one caller giving up never fails another caller's resolution.
+
+export interface RequestLimits {
+  signal?: AbortSignal;
+  /** Per-request timeout in milliseconds.  `0` / `undefined` = no timeout. */
+  timeout?: number;
+}
+
+/** The error `resolveLocation` rejects with when its signal is aborted. */
+export function createAbortError(): Error {
+  if (typeof DOMException === 'function') {
+    return new DOMException('The resolution was aborted', 'AbortError');
+  }
+  const error = new Error('The resolution was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+/** Settles with `promise`, or rejects with an AbortError as soon as `signal` aborts. */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Fetches `url` and reads the response with `read`, both under `limits`.
+ * Requests use the `fetch`, `requestInit` and `headers` set with
+ * `configureResolver()`.  Without limits this is a plain `fetch(url, init)`
+ * followed by `read`.
+ */
+export async function requestWithLimits<T>(
+  url: string,
+  requestInit: RequestInit | undefined,
+  limits: RequestLimits | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const signal = limits?.signal;
+  const timeout = limits?.timeout;
+  const fetch = getFetch();
+  const init = await buildRequestInit(url, requestInit);
+  if (!signal && !timeout) {
+    return read(await (init ? fetch(url, init) : fetch(url)));
+  }
+
+  throwIfAborted(signal);
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  // Rejects on timeout / abort even if the fetch implementation ignores
+  // `controller.signal` (the abort still cancels a real fetch).
+  const limit = new Promise<never>((_resolve, reject) => {
+    onAbort = () => {
+      controller.abort();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+    if (timeout) {
+      timer = setTimeout(() => {
+        controller.abort();
+        const error = new Error(`Request timed out after ${timeout} ms: ${url}`);
+        error.name = 'TimeoutError';
+        reject(error);
+      }, timeout);
+    }
+  });
+
+  const request = fetch(url, { ...init, signal: controller.signal }).then(read);
+  try {
+    return await Promise.race([request, limit]);
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    // The losing request's rejection (AbortError from the cancelled fetch) is expected
+    request.catch(() => {});
+  }
+}
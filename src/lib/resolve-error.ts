@@ -0,0 +1,88 @@
+// ─── Resolution failures ────────────────────────────────────────────────────
+// `resolveLocation` collapses every failure into `null`.
+// `resolveLocationDetailed` reports why instead: built-in strategies throw a
+// `ResolveError` carrying a reason code, the URL involved and (for HTTP
+// failures) the status.  Custom strategies may throw one too — any other
+// error is reported as `strategy-error`.
+
+export type ResolveFailureReason =
+  /** The component has no `_debugStack` (React < 19, production build). */
+  | 'no-stack-frame'
+  /** The stack line could not be parsed into url:line:column. */
+  | 'unparseable-frame'
+  /** No enabled strategy can handle the frame's URL (e.g. `chrome-extension://`). */
+  | 'unsupported-url'
+  /** The generated chunk could not be fetched (see `status`). */
+  | 'fetch-failed'
+  /** A request exceeded the configured timeout. */
+  | 'timeout'
+  /** The chunk has no `sourceMappingURL` comment. */
+  | 'no-source-map'
+  /** The chunk's source map could not be fetched (see `status`). */
+  | 'source-map-fetch-failed'
+  /** The source map's `debugId` differs from the chunk's (stale cache, mismatched deploy). */
+  | 'debug-id-mismatch'
+  /** The source map is not valid JSON / not a source map. */
+  | 'invalid-source-map'
+  /** The source map has no mapping for the position. */
+  | 'unmapped-position'
+  /** The Next.js dev server could not resolve the frame. */
+  | 'nextjs-rejected'
+  /** The endpoint set with `configureRscEndpoint` could not resolve the frame (see `status`). */
+  | 'rsc-endpoint-rejected'
+  /** A strategy threw an unexpected error. */
+  | 'strategy-error'
+  /** Every strategy returned `null` without saying why. */
+  | 'unresolved';
+
+export interface ResolveFailure {
+  reason: ResolveFailureReason;
+  /** Human-readable description, suitable for a toast. */
+  message: string;
+  /** The URL involved — the chunk, the source map or the dev server endpoint. */
+  url?: string;
+  /** HTTP status, when the failure was an HTTP error response. */
+  status?: number;
+  /** Name of the strategy that failed, when one did. */
+  strategy?: string;
+}
+
+/** Thrown by resolver strategies to report why a frame could not be resolved. */
+export class ResolveError extends Error {
+  readonly reason: ResolveFailureReason;
+  readonly url?: string;
+  readonly status?: number;
+
+  constructor(
+    reason: ResolveFailureReason,
+    message: string,
+    details: { url?: string; status?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ResolveError';
+    this.reason = reason;
+    this.url = details.url;
+    this.status = details.status;
+  }
+}
+
+/** Converts anything a strategy threw into a {@link ResolveFailure}. */
+export function toResolveFailure(error: unknown, strategy?: string): ResolveFailure {
+  if (error instanceof ResolveError) {
+    return {
+      reason: error.reason,
+      message: error.message,
+      url: error.url,
+      status: error.status,
+      strategy,
+    };
+  }
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return { reason: 'timeout', message: error.message, strategy };
+  }
+  return {
+    reason: 'strategy-error',
+    message: error instanceof Error ? error.message : String(error),
+    strategy,
+  };
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_MAX_MAP_BYTES,
+  DEFAULT_MAX_RESULTS,
+  configureResolver,
+  getFetch,
+  getMaxMapBytes,
+  getMaxResults,
+  usesDefaultRequests,
+} from './resolver-config';
+import { clearCaches, getCacheStats, resolveLocation } from './source-location-resolver';
+import type { SourceMapWorkerRequest, SourceMapWorkerResponse } from './source-map-worker';
+
+describe('configureResolver', () => {
+  afterEach(() => {
+    configureResolver(undefined);
+  });
+
+  it('keeps the options a call leaves out', () => {
+    const fetchMock = vi.fn() as unknown as typeof fetch;
+    configureResolver({ maxMapBytes: 1024, maxResults: 10 });
+    configureResolver({ fetch: fetchMock });
+
+    expect(getMaxMapBytes()).toBe(1024);
+    expect(getMaxResults()).toBe(10);
+    expect(getFetch()).toBe(fetchMock);
+
+    configureResolver({ maxResults: 20 });
+    expect(getFetch()).toBe(fetchMock);
+    expect(getMaxResults()).toBe(20);
+  });
+
+  it('restores the default of an option set to undefined', () => {
+    configureResolver({ maxMapBytes: 1024, maxResults: 10 });
+    configureResolver({ maxMapBytes: undefined });
+
+    expect(getMaxMapBytes()).toBe(DEFAULT_MAX_MAP_BYTES);
+    expect(getMaxResults()).toBe(10);
+  });
+
+  it('restores every default with undefined', () => {
+    configureResolver({ maxResults: 10, requestInit: { credentials: 'include' } });
+    configureResolver(undefined);
+
+    expect(getMaxResults()).toBe(DEFAULT_MAX_RESULTS);
+    expect(usesDefaultRequests()).toBe(true);
+  });
+});
+
+describe('maxMapBytes', () => {
+  const map = JSON.stringify({ version: 3, sources: ['App.tsx'], names: [], mappings: 'AAAA' });
+  const chunk = '//# sourceMappingURL=app.js.map';
+  // Chunk + map, two bytes per UTF-16 code unit
+  const chunkBytes = 2 * (chunk.length + map.length);
+
+  afterEach(() => {
+    clearCaches();
+    configureResolver(undefined);
+    vi.unstubAllGlobals();
+  });
+
+  it('reaches the worker with every request', async () => {
+    const requests: SourceMapWorkerRequest[] = [];
+    class RecordingWorker {
+      private listener: ((event: { data: SourceMapWorkerResponse }) => void) | undefined;
+      addEventListener(type: string, listener: (event: { data: SourceMapWorkerResponse }) => void) {
+        if (type === 'message') this.listener = listener;
+      }
+      postMessage(data: SourceMapWorkerRequest) {
+        requests.push(data);
+        setTimeout(() =>
+          this.listener?.({ data: { id: data.id, result: null, cache: { entries: 0, bytes: 0 } } })
+        );
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', RecordingWorker);
+    // Fresh modules, so the worker is started against the stub
+    vi.resetModules();
+    const config = await import('./resolver-config');
+    const worker = await import('./source-map-worker');
+
+    config.configureResolver({ maxMapBytes: 1024 });
+    await worker.resolveInSourceMapWorker('http://localhost:3000/app.js', 1, 0);
+    config.configureResolver({ maxMapBytes: 2048 });
+    await worker.resolveInSourceMapWorker('http://localhost:3000/app.js', 1, 0);
+    config.configureResolver(undefined);
+    await worker.resolveInSourceMapWorker('http://localhost:3000/app.js', 1, 0);
+
+    expect(requests.map((request) => request.type === 'resolve' && request.maxBytes)).toEqual([
+      1024,
+      2048,
+      DEFAULT_MAX_MAP_BYTES,
+    ]);
+  });
+
+  it('bounds the running byte total of the main-thread source map cache', async () => {
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(new Response(url.endsWith('.map') ? map : chunk))
+    );
+    configureResolver({ fetch: fetchMock as unknown as typeof fetch, maxMapBytes: 2 * chunkBytes });
+
+    // Another column each time, so no lookup is answered by the result cache
+    for (const [column, name] of ['a', 'b', 'c', 'a'].entries()) {
+      await resolveLocation(`at Foo (http://localhost:3000/src/${name}.js:1:${column})`);
+      const { entries, bytes } = getCacheStats().sourceMaps;
+      expect(bytes).toBe(entries * chunkBytes);
+      expect(bytes).toBeLessThanOrEqual(2 * chunkBytes);
+    }
+    // `a` was evicted by `c` and fetched again
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+
+    configureResolver({ maxMapBytes: undefined });
+    await resolveLocation('at Foo (http://localhost:3000/src/b.js:1:0)');
+    await resolveLocation('at Foo (http://localhost:3000/src/d.js:1:0)');
+    expect(getCacheStats().sourceMaps).toMatchObject({ entries: 4, bytes: 4 * chunkBytes });
+  });
+});
@@ -0,0 +1,100 @@
+// ─── Resolver configuration ─────────────────────────────────────────────────
+// Global resolver options, set with `configureResolver()`.  Each call merges
+// into the current configuration, so the cache limits and the request
+// options can be set separately.  An option set to `undefined` falls back to
+// its default; `configureResolver(undefined)` restores them all.
+
+export interface ResolverConfig {
+  /**
+   * Maximum number of resolved locations kept in the result cache (L1).
+   * @default 500
+   */
+  maxResults?: number;
+  /**
+   * Memory budget in bytes for the chunks and source maps kept in the source
+   * map cache (L2), estimated as 2 bytes per character of their text.  The
+   * source map worker keeps its decoded maps within the same budget.  The
+   * oldest maps are evicted first; the newest map is always kept, even when
+   * it alone exceeds the budget.
+   * @default 64 MiB
+   */
+  maxMapBytes?: number;
+  /**
+   * The `fetch` every request of the resolver is made with — chunks, source
+   * maps and the dev server endpoints.  Use it to route requests through a
+   * proxy, or to stub them in tests.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Options for every request, e.g. `{ credentials: 'include' }` for maps
+   * behind cookie authentication.  Options set by the request itself (the
+   * method and body of endpoint calls) take precedence.
+   */
+  requestInit?: RequestInit;
+  /**
+   * Headers added to every request, or a function returning the headers for
+   * a request URL — e.g. a token for the hosts that need one.  They override
+   * headers of the same name from `requestInit`.
+   */
+  headers?:
+    | HeadersInit
+    | ((url: string) => HeadersInit | undefined | Promise<HeadersInit | undefined>);
+}
+
+export const DEFAULT_MAX_RESULTS = 500;
+export const DEFAULT_MAX_MAP_BYTES = 64 * 1024 * 1024;
+
+let _config: ResolverConfig = {};
+
+/**
+ * Configures the resolver, keeping the options `config` omits; `undefined`
+ * restores the defaults.  Lowered limits take effect with the next entry
+ * added to the affected cache.
+ */
+export function configureResolver(config: ResolverConfig | undefined): void {
+  _config = config ? { ..._config, ...config } : {};
+}
+
+export function getMaxResults(): number {
+  return _config.maxResults ?? DEFAULT_MAX_RESULTS;
+}
+
+export function getMaxMapBytes(): number {
+  return _config.maxMapBytes ?? DEFAULT_MAX_MAP_BYTES;
+}
+
+/** The configured `fetch`, or the global one. */
+export function getFetch(): typeof fetch {
+  return _config.fetch ?? fetch;
+}
+
+/**
+ * Whether requests are made with the global `fetch` and default options —
+ * the only requests the source map worker can make on the resolver's behalf.
+ */
+export function usesDefaultRequests(): boolean {
+  return !_config.fetch && !_config.requestInit && !_config.headers;
+}
+
+function copyHeaders(from: HeadersInit | undefined, into: Headers): void {
+  if (from) new Headers(from).forEach((value, name) => into.set(name, value));
+}
+
+/**
+ * Applies the configured `requestInit` and `headers` to the options of a
+ * request to `url`.  Returns `init` as is when neither is configured.
+ */
+export async function buildRequestInit(
+  url: string,
+  init: RequestInit | undefined
+): Promise<RequestInit | undefined> {
+  const { requestInit, headers } = _config;
+  if (!requestInit && !headers) return init;
+
+  const merged = new Headers();
+  copyHeaders(requestInit?.headers, merged);
+  copyHeaders(typeof headers === 'function' ? await headers(url) : headers, merged);
+  copyHeaders(init?.headers, merged);
+  return { ...requestInit, ...init, headers: merged };
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type ResolverStrategy,
+  configureResolverStrategies,
+  getResolverStrategies,
+  registerResolverStrategy,
+} from './resolver-strategies';
+import { clearCaches, resolveLocation } from './source-location-resolver';
+
+function strategy(name: string, overrides: Partial<ResolverStrategy> = {}): ResolverStrategy {
+  return {
+    name,
+    canHandle: () => true,
+    resolve: () => Promise.resolve(null),
+    ...overrides,
+  };
+}
+
+const names = () => getResolverStrategies().map((s) => s.name);
+
+describe('resolver strategy registry', () => {
+  const unregister: Array<() => void> = [];
+
+  afterEach(() => {
+    for (const fn of unregister.splice(0)) fn();
+    configureResolverStrategies({});
+  });
+
+  it('has the built-in strategies in their default order', () => {
+    expect(names()).toEqual([
+      'nextjs',
+      'rsc-endpoint',
+      'webpack-eval',
+      'source-map',
+      'nextjs-client',
+    ]);
+  });
+
+  it('tries custom strategies before the built-ins', () => {
+    unregister.push(registerResolverStrategy(strategy('a')));
+    unregister.push(registerResolverStrategy(strategy('b')));
+    expect(names()).toEqual([
+      'a',
+      'b',
+      'nextjs',
+      'rsc-endpoint',
+      'webpack-eval',
+      'source-map',
+      'nextjs-client',
+    ]);
+  });
+
+  it('replaces a built-in registered under the same name', () => {
+    const custom = strategy('nextjs');
+    unregister.push(registerResolverStrategy(custom));
+    expect(names()).toEqual([
+      'nextjs',
+      'rsc-endpoint',
+      'webpack-eval',
+      'source-map',
+      'nextjs-client',
+    ]);
+    expect(getResolverStrategies()[0]).toBe(custom);
+
+    unregister.pop()?.();
+    expect(getResolverStrategies()[0]).not.toBe(custom);
+  });
+
+  it('applies configured order and disabled strategies', () => {
+    unregister.push(registerResolverStrategy(strategy('a')));
+    configureResolverStrategies({ order: ['source-map', 'a'], disabled: ['nextjs'] });
+    expect(names()).toEqual(['source-map', 'a', 'rsc-endpoint', 'webpack-eval', 'nextjs-client']);
+
+    configureResolverStrategies({ order: ['nextjs'] });
+    expect(names()).toEqual([
+      'nextjs',
+      'a',
+      'rsc-endpoint',
+      'webpack-eval',
+      'source-map',
+      'nextjs-client',
+    ]);
+  });
+});
+
+describe('resolveLocation with custom strategies', () => {
+  const unregister: Array<() => void> = [];
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  afterEach(() => {
+    for (const fn of unregister.splice(0)) fn();
+    configureResolverStrategies({});
+  });
+
+  const frame = 'at Page (rsc://MyFramework/Server/file:///app/src/page.js:3:7)';
+
+  it('uses the first strategy that can handle the frame and caches its result', async () => {
+    const resolve = vi.fn().mockResolvedValue({ source: '/app/src/page.tsx', line: 1, column: 2 });
+    const skipped = vi.fn();
+    unregister.push(
+      registerResolverStrategy(strategy('other', { canHandle: () => false, resolve: skipped }))
+    );
+    unregister.push(
+      registerResolverStrategy(
+        strategy('my-framework', {
+          canHandle: (f) => f.url.startsWith('rsc://MyFramework/'),
+          resolve,
+        })
+      )
+    );
+
+    const result = await resolveLocation(frame);
+    expect(result).toEqual({ source: '/app/src/page.tsx', line: 1, column: 2 });
+    expect(skipped).not.toHaveBeenCalled();
+    expect(resolve.mock.calls[0][0]).toMatchObject({
+      url: 'rsc://MyFramework/Server/file:///app/src/page.js',
+      line: 3,
+      column: 7,
+    });
+
+    await resolveLocation(frame);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls through to the next strategy on null or error', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    unregister.push(
+      registerResolverStrategy(
+        strategy('throws', { resolve: () => Promise.reject(new Error('boom')) })
+      )
+    );
+    unregister.push(registerResolverStrategy(strategy('null')));
+    unregister.push(
+      registerResolverStrategy(
+        strategy('works', {
+          resolve: () => Promise.resolve({ source: '/x.ts', line: 1, column: 0 }),
+        })
+      )
+    );
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ source: '/x.ts' });
+    errorSpy.mockRestore();
+  });
+
+  it('returns null when every strategy is disabled', async () => {
+    unregister.push(
+      registerResolverStrategy(
+        strategy('works', {
+          resolve: () => Promise.resolve({ source: '/x.ts', line: 1, column: 0 }),
+        })
+      )
+    );
+    configureResolverStrategies({
+      disabled: ['works', 'nextjs', 'rsc-endpoint', 'webpack-eval', 'source-map', 'nextjs-client'],
+    });
+
+    await expect(resolveLocation(frame)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import type { ResolvedSourceInfo, StackFrameInfo } from './source-location-resolver';
+
+// ─── Resolver strategies ────────────────────────────────────────────────────
+// `resolveLocation` parses a stack frame, checks the result cache, and then
+// asks each enabled strategy in turn whether it can handle the frame.  The
+// first strategy that returns a location wins; `null` (or a thrown error)
+// passes the frame on to the next one.
+//
+// Built-in strategies (registered by source-location-resolver.ts):
+//   - "nextjs"        — Next.js dev server endpoints for RSC frames
+//   - "rsc-endpoint"  — the endpoint set with `configureRscEndpoint`, for RSC
+//                       frames of other frameworks
+//   - "webpack-eval"  — inline source maps of webpack eval modules, for
+//                       `webpack-internal:///` frames
+//   - "source-map"    — fetch the chunk + its source map and resolve locally
+//   - "nextjs-client" — Next.js dev server endpoint for client chunks the
+//                       "source-map" strategy couldn't resolve
+//
+// Custom strategies are tried before the built-ins unless an explicit order
+// is configured:
+//
+//   registerResolverStrategy({ name: 'my-framework', canHandle, resolve });
+//   configureResolverStrategies({ order: ['nextjs', 'my-framework'], disabled: ['source-map'] });
+
+/** Per-call information passed to {@link ResolverStrategy.resolve}. */
+export interface ResolverStrategyContext {
+  /** Whether the caller asked for a debug trace (see the `debug` prop). */
+  debug: boolean;
+  /**
+   * Aborts when the caller gives up on the resolution — pass it to `fetch`.
+   * `resolveLocation` stops waiting for the strategy either way.
+   */
+  signal?: AbortSignal;
+  /** Per-request timeout in milliseconds requested by the caller, if any. */
+  timeout?: number;
+}
+
+export interface ResolverStrategy {
+  /** Unique name, used for ordering, enablement and debug output. */
+  name: string;
+  /** Returns `true` when this strategy knows how to resolve the frame. */
+  canHandle(frame: StackFrameInfo): boolean;
+  /**
+   * Resolves the frame to its original location, or returns `null` to let the
+   * next strategy try.  Results are cached by the caller.
+   */
+  resolve(
+    frame: StackFrameInfo,
+    context: ResolverStrategyContext
+  ): Promise<ResolvedSourceInfo | null>;
+}
+
+export interface ResolverStrategiesConfig {
+  /**
+   * Strategy names in the order they should be tried.  Strategies not listed
+   * are tried afterwards, in their default order.
+   */
+  order?: string[];
+  /** Strategy names that should never be tried. */
+  disabled?: string[];
+}
+
+const builtinStrategies: ResolverStrategy[] = [];
+const customStrategies: ResolverStrategy[] = [];
+let _config: ResolverStrategiesConfig = {};
+
+function removeByName(list: ResolverStrategy[], name: string): void {
+  const index = list.findIndex((s) => s.name === name);
+  if (index >= 0) list.splice(index, 1);
+}
+
+/**
+ * Registers a custom resolver strategy.  A strategy with the same name
+ * (including a built-in) is replaced.  Returns a function that unregisters it.
+ */
+export function registerResolverStrategy(strategy: ResolverStrategy): () => void {
+  removeByName(customStrategies, strategy.name);
+  customStrategies.push(strategy);
+  return () => {
+    if (customStrategies.indexOf(strategy) >= 0) {
+      removeByName(customStrategies, strategy.name);
+    }
+  };
+}
+
+/** @internal — used by source-location-resolver.ts to install the built-ins */
+export function registerBuiltinResolverStrategy(strategy: ResolverStrategy): void {
+  removeByName(builtinStrategies, strategy.name);
+  builtinStrategies.push(strategy);
+}
+
+/** Sets strategy order and enablement.  Pass `{}` to restore the defaults. */
+export function configureResolverStrategies(config: ResolverStrategiesConfig): void {
+  _config = { order: config.order?.slice(), disabled: config.disabled?.slice() };
+}
+
+/** Returns the enabled strategies in the order they should be tried. */
+export function getResolverStrategies(): ResolverStrategy[] {
+  const overridden = new Set(customStrategies.map((s) => s.name));
+  const all = [...customStrategies, ...builtinStrategies.filter((s) => !overridden.has(s.name))];
+
+  const order = _config.order ?? [];
+  const rank = (s: ResolverStrategy) => {
+    const index = order.indexOf(s.name);
+    return index >= 0 ? index : order.length;
+  };
+  // Array#sort is stable, so unlisted strategies keep their default order
+  const disabled = new Set(_config.disabled);
+  return all.filter((s) => !disabled.has(s.name)).sort((a, b) => rank(a) - rank(b));
+}
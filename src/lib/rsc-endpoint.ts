@@ -0,0 +1,104 @@
+// ─── React Server Component endpoints ───────────────────────────────────────
+// React Server Component frames point at files on the server:
+//
+//   rsc://React/Server/file:///Users/me/app/dist/rsc/page.js?3:12:7
+//   about://React/Server/file:///Users/me/app/dist/rsc/page.js?3:12:7
+//
+// The browser can't fetch those, so the dev server has to help.  Next.js has
+// built-in endpoints (the "nextjs" strategy).  For any other RSC framework —
+// Waku, Parcel, React Router — configure an endpoint, and the "rsc-endpoint"
+// strategy sends it each frame:
+//
+//   configureRscEndpoint({ url: '/__symbolicate' });
+//
+// An endpoint either resolves the frame itself or returns the source map of
+// the server file, which is then resolved in the browser.
+// `fileSourceMapEndpoint()` does the latter and pairs with the middleware
+// from `show-component/middleware`.
+
+/** Default path of the source map middleware (`show-component/middleware`). */
+export const DEFAULT_SOURCE_MAP_ENDPOINT = '/__show-component/source-map';
+
+/** An RSC stack frame, as sent to the endpoint. */
+export interface RscFrame {
+  /** The RSC URL from the stack frame. */
+  url: string;
+  /** Filesystem path of the server file, decoded from the URL. */
+  file: string;
+  line: number;
+  column: number;
+  functionName?: string;
+}
+
+/**
+ * What an endpoint resolves a frame to: the original location, or the source
+ * map of the server file to resolve the frame with.
+ */
+export type RscEndpointResult =
+  | { source: string; line: number; column: number; name?: string; sourceContent?: string }
+  | { sourceMap: string };
+
+export interface RscEndpointConfig {
+  /** Endpoint URL — absolute, or root-relative to the page's origin. */
+  url: string;
+  /**
+   * Builds the request for a frame.  Defaults to `POST url` with the
+   * {@link RscFrame} as JSON body.
+   */
+  request?: (frame: RscFrame, url: string) => { url: string; init?: RequestInit };
+  /**
+   * Reads a successful response.  Defaults to JSON of the form
+   * `{ source, line, column, name? }` (or `null` for an unknown frame).
+   * Error statuses are reported as `rsc-endpoint-rejected` before this runs.
+   */
+  parseResponse?: (response: Response, frame: RscFrame) => Promise<RscEndpointResult | null>;
+}
+
+let _endpoint: Required<RscEndpointConfig> | undefined;
+
+function defaultRequest(frame: RscFrame, url: string): { url: string; init?: RequestInit } {
+  return {
+    url,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(frame),
+    },
+  };
+}
+
+function defaultParseResponse(response: Response): Promise<RscEndpointResult | null> {
+  return response.json();
+}
+
+/**
+ * Sets the server-side symbolication endpoint for React Server Component
+ * frames.  Pass `undefined` to remove it.
+ */
+export function configureRscEndpoint(config: RscEndpointConfig | undefined): void {
+  _endpoint = config && {
+    url: config.url,
+    request: config.request ?? defaultRequest,
+    parseResponse: config.parseResponse ?? defaultParseResponse,
+  };
+}
+
+/** @internal — the configured endpoint with defaults applied */
+export function getRscEndpoint(): Required<RscEndpointConfig> | undefined {
+  return _endpoint;
+}
+
+/**
+ * Endpoint adapter for the source map middleware from
+ * `show-component/middleware`: requests `GET url?file=<path>` and resolves
+ * the frame against the returned source map.
+ */
+export function fileSourceMapEndpoint(url = DEFAULT_SOURCE_MAP_ENDPOINT): RscEndpointConfig {
+  return {
+    url,
+    request: (frame, endpoint) => ({
+      url: `${endpoint}${endpoint.indexOf('?') >= 0 ? '&' : '?'}file=${encodeURIComponent(frame.file)}`,
+    }),
+    parseResponse: async (response) => ({ sourceMap: await response.text() }),
+  };
+}
@@ -0,0 +1,140 @@
+import { type RequestLimits, requestWithLimits } from './request-limits';
+import { ResolveError } from './resolve-error';
+
+// ─── Source loaders ─────────────────────────────────────────────────────────
+// The "source-map" strategy reads two files per chunk: the chunk itself and
+// the source map named by its `sourceMappingURL` comment.  A `SourceLoader`
+// provides both, so the resolver itself doesn't depend on the environment:
+//
+//   - the default loader fetches them over HTTP, resolving root-relative
+//     URLs against the page's origin
+//   - `createNodeSourceLoader()` from `show-component/node` reads them from
+//     disk, for frames of server code (SSR error logs, Vitest reporters,
+//     build scripts):
+//
+//       configureSourceLoader(createNodeSourceLoader());
+//       await resolveLocation('    at Page (/app/dist/server/page.js:12:7)');
+//
+// A `sourceMappingURL` is resolved against the URL a chunk was loaded from,
+// with `new URL(reference, chunkUrl)` — loaders report `http(s)://` or
+// `file://` URLs so relative references resolve the same way everywhere.
+
+/** `'chunk'` for the generated file of a stack frame, `'source-map'` for its map. */
+export type SourceKind = 'chunk' | 'source-map';
+
+export interface LoadedSource {
+  content: string;
+  /**
+   * Absolute URL the content was loaded from (after redirects, root-relative
+   * URLs resolved), which relative references in it resolve against.
+   */
+  url: string;
+  /** Validator of the content (an HTTP ETag), part of its persistent cache fingerprint. */
+  etag?: string;
+}
+
+export interface SourceLoader {
+  /**
+   * Returns `true` for stack frame URLs this loader can load.  Frames it
+   * can't are left to the other resolver strategies.
+   */
+  canLoad(url: string): boolean;
+  /**
+   * Loads a chunk or source map.  Rejections other than `ResolveError`s are
+   * reported as `fetch-failed` (chunks) or `source-map-fetch-failed` (maps).
+   */
+  load(url: string, kind: SourceKind, limits?: RequestLimits): Promise<LoadedSource>;
+}
+
+/**
+ * Returns `true` when the URL uses a scheme that we cannot fetch
+ * (e.g. `chrome-extension://`, `blob:`, `data:`, `rsc://`, `about://`, etc.).
+ *
+ * Allows: `http(s)://` and relative URLs (no scheme).
+ *
+ * Note: React Server Component URLs (`rsc://`, `about://React/Server/…`) are
+ * handled by the "nextjs" and "rsc-endpoint" resolver strategies and are
+ * intentionally *not* fetchable through this path.
+ */
+export function hasNonFetchableScheme(url: string): boolean {
+  // Relative URLs and http(s) are fine
+  if (url.startsWith('/') || url.startsWith('http://') || url.startsWith('https://')) return false;
+  // Anything else with a "scheme://" prefix is non-fetchable
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(url);
+}
+
+/** The page's origin, or `undefined` outside the browser (Node, workers). */
+export function getPageOrigin(): string | undefined {
+  return typeof window !== 'undefined' && window.location ? window.location.origin : undefined;
+}
+
+/**
+ * Resolves root-relative URLs against `window.location.origin`.  Outside the
+ * browser they are returned as-is (and fail to fetch).
+ */
+export function toFetchUrl(url: string): string {
+  const origin = getPageOrigin();
+  if (url.startsWith('http') || !origin) return url;
+  return `${origin}${url}`;
+}
+
+const KIND_LABELS: Record<SourceKind, string> = {
+  chunk: 'source file',
+  'source-map': 'source map',
+};
+
+/** The default loader: fetches chunks and source maps over HTTP. */
+export const fetchSourceLoader: SourceLoader = {
+  canLoad: (url) => !hasNonFetchableScheme(url),
+
+  async load(url, kind, limits) {
+    if (kind === 'chunk' && hasNonFetchableScheme(url)) {
+      throw new ResolveError('unsupported-url', `Non-fetchable URL scheme: ${url}`, { url });
+    }
+
+    const fetchUrl = toFetchUrl(url);
+    const reason = kind === 'chunk' ? 'fetch-failed' : 'source-map-fetch-failed';
+    const label = KIND_LABELS[kind];
+
+    try {
+      return await requestWithLimits(fetchUrl, undefined, limits, async (response) => {
+        if (!response.ok) {
+          throw new ResolveError(
+            reason,
+            `Failed to fetch ${label}: ${response.status} ${response.statusText}`,
+            { url: fetchUrl, status: response.status }
+          );
+        }
+
+        const content = await response.text();
+        return { content, url: fetchUrl, etag: response.headers?.get('etag') ?? undefined };
+      });
+    } catch (error) {
+      // Network errors (offline, CORS, DNS) reject with a bare TypeError
+      if (error instanceof TypeError) {
+        throw new ResolveError(reason, `Failed to fetch ${label}: ${error.message}`, {
+          url: fetchUrl,
+        });
+      }
+      throw error;
+    }
+  },
+};
+
+let _loader: SourceLoader = fetchSourceLoader;
+
+/**
+ * Sets the loader the "source-map" strategy reads chunks and source maps
+ * with.  Pass `undefined` to restore the default HTTP loader.
+ *
+ * Entries cached by the previous loader stay cached — call `clearCaches()`
+ * when the same URLs now load different files.
+ */
+export function configureSourceLoader(loader: SourceLoader | undefined): void {
+  _loader = loader ?? fetchSourceLoader;
+}
+
+/** @internal — the configured loader */
+export function getSourceLoader(): SourceLoader {
+  return _loader;
+}
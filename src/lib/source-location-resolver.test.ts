@@ -1,12 +1,22 @@
+import { SourceMapGenerator } from '@jridgewell/source-map';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureDebugIdLookup, createDebugIdRegistry, debugIdDirectory } from './debug-id';
+import { configureResolver } from './resolver-config';
+import { configureRscEndpoint, fileSourceMapEndpoint } from './rsc-endpoint';
 import {
   clearCaches,
   configureSourceRoot,
   extractStackFrameInfo,
   fetchSourceFile,
+  getCacheStats,
+  inferNextCompilerContext,
   resolveLocation,
+  resolveLocationDetailed,
+  resolveLocations,
+  resolveOriginalName,
   resolveSourcePath,
 } from './source-location-resolver';
+import { configureSourceMapLocator, conventionalSourceMapLocator } from './source-map-locator';
 
 // ─── extractStackFrameInfo ───────────────────────────────────────────────────
 
@@ -172,6 +182,84 @@ describe('resolveSourcePath', () => {
     );
     expect(result).toBe('/src/components/Foo.tsx');
   });
+
+  it('strips the webpack namespace and module hash of eval devtool sources', () => {
+    const result = resolveSourcePath(
+      'webpack://test-app/./src/components/Foo.tsx?8a3c',
+      undefined,
+      'http://localhost:3000/'
+    );
+    expect(result).toBe('/src/components/Foo.tsx');
+  });
+
+  describe('Windows and UNC paths', () => {
+    const chunkUrl = 'http://localhost:3000/static/js/main.js';
+
+    it.each([
+      ['file:///C:/Users/me/project/src/Foo.tsx', undefined, 'C:/Users/me/project/src/Foo.tsx'],
+      ['file://wsl$/Ubuntu/home/me/src/Foo.tsx', undefined, '//wsl$/Ubuntu/home/me/src/Foo.tsx'],
+      ['C:\\Users\\me\\project\\src\\Foo.tsx', undefined, 'C:/Users/me/project/src/Foo.tsx'],
+      ['D:/work/src/Foo.tsx', undefined, 'D:/work/src/Foo.tsx'],
+      ['\\\\wsl$\\Ubuntu\\home\\me\\Foo.tsx', undefined, '//wsl$/Ubuntu/home/me/Foo.tsx'],
+      ['webpack:///C:/Users/me/project/src/Foo.tsx', undefined, 'C:/Users/me/project/src/Foo.tsx'],
+      ['src\\components\\Foo.tsx', undefined, '/static/js/src/components/Foo.tsx'],
+      ['src/Foo.tsx', 'file:///C:/Users/me/project/', 'C:/Users/me/project/src/Foo.tsx'],
+      ['src/Foo.tsx', 'C:\\Users\\me\\project\\', 'C:/Users/me/project/src/Foo.tsx'],
+    ])('resolves %s (sourceRoot %s) to %s', (rawSource, sourceRoot, expected) => {
+      expect(resolveSourcePath(rawSource, sourceRoot, chunkUrl)).toBe(expected);
+    });
+
+    it.each([
+      ['C:\\Users\\me\\project\\', 'C:/Users/me/project/src/Foo.tsx'],
+      ['\\\\wsl$\\Ubuntu\\home\\me\\project', '//wsl$/Ubuntu/home/me/project/src/Foo.tsx'],
+      ['/Users/me/project/', '/Users/me/project/src/Foo.tsx'],
+    ])('joins URL paths onto the configured root %s', (root, expected) => {
+      configureSourceRoot(root);
+      expect(resolveSourcePath('Foo.tsx', undefined, 'http://localhost:5173/src/Foo.tsx')).toBe(
+        expected
+      );
+    });
+  });
+
+  describe('Vite URL paths', () => {
+    beforeEach(() => {
+      configureSourceRoot('/home/me/repo/apps/web');
+    });
+
+    it.each([
+      // Linked workspace package served from outside the root
+      ['Button.tsx', 'http://localhost:5173/@fs/home/me/repo/packages/ui/src/Button.tsx?v=1a2b'],
+      [
+        '/home/me/repo/packages/ui/lib/Button.tsx',
+        'http://localhost:5173/@fs/home/me/repo/packages/ui/lib/Button.tsx',
+      ],
+      ['/@fs/home/me/repo/packages/ui/src/Button.tsx', 'http://localhost:5173/src/App.tsx'],
+    ])('resolves %s in %s without the source root', (rawSource, chunkUrl) => {
+      expect(resolveSourcePath(rawSource, undefined, chunkUrl)).toMatch(
+        /^\/home\/me\/repo\/packages\/ui\/(?:src|lib)\/Button\.tsx$/
+      );
+    });
+
+    it('resolves /@fs/ paths with a Windows drive and a base path', () => {
+      expect(
+        resolveSourcePath(
+          'Button.tsx',
+          undefined,
+          'http://localhost:5173/app/@fs/C:/repo/ui/Button.tsx'
+        )
+      ).toBe('C:/repo/ui/Button.tsx');
+    });
+
+    it('returns the ids of /@id/ virtual modules', () => {
+      expect(
+        resolveSourcePath(
+          '/@id/__x00__virtual:icons',
+          undefined,
+          'http://localhost:5173/src/App.tsx'
+        )
+      ).toBe('virtual:icons');
+    });
+  });
 });
 
 // ─── resolveLocation — Next.js RSC fast path ───────────────────────────────
@@ -248,6 +336,36 @@ describe('resolveLocation — Next.js dev server integration', () => {
     expect(body.frames[0].column1).toBe(295);
   });
 
+  it('returns the Next.js code frame, without colours, only when requested', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve([
+          {
+            status: 'fulfilled',
+            value: {
+              originalStackFrame: {
+                file: '/Users/testuser/Projects/sample-app/web/src/app/page.tsx',
+                methodName: 'LandingPage',
+                arguments: [],
+                line1: 42,
+                column1: 10,
+                ignored: false,
+              },
+              originalCodeFrame:
+                '\u001b[31m\u001b[1m>\u001b[22m\u001b[39m 42 | export default function LandingPage() {',
+            },
+          },
+        ]),
+    });
+
+    const plain = await resolveLocation(nextjsRscStackLine);
+    expect(plain?.codeFrame).toBeUndefined();
+
+    const withFrame = await resolveLocation(nextjsRscStackLine, false, { codeFrame: true });
+    expect(withFrame?.codeFrame).toBe('> 42 | export default function LandingPage() {');
+  });
+
   it('falls back to __nextjs_source-map when __nextjs_original-stack-frames fails', async () => {
     const mockFetch = vi
       .fn()
@@ -339,7 +457,7 @@ describe('resolveLocation — Next.js dev server integration', () => {
     expect(mockFetch).not.toHaveBeenCalled();
   });
 
-  it('does not use Next.js fast path for regular HTTP URLs', async () => {
+  it('tries the source map of client chunks before the Next.js dev server', async () => {
     const httpStackLine = 'at Component (http://localhost:3000/_next/static/chunks/app.js:100:20)';
 
     const mockFetch = vi.fn().mockResolvedValue({
@@ -350,9 +468,11 @@ describe('resolveLocation — Next.js dev server integration', () => {
 
     await resolveLocation(httpStackLine);
 
-    // Should fetch the JS file directly, not use Next.js endpoints
-    expect(mockFetch).toHaveBeenCalledTimes(1);
-    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:3000/_next/static/chunks/app.js');
+    // Should fetch the JS file directly, and only then ask the dev server
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:3000/_next/static/chunks/app.js',
+      'http://localhost:3000/__nextjs_original-stack-frames',
+    ]);
   });
 
   it('caches the resolved result from Next.js dev server (L1 cache)', async () => {
@@ -388,4 +508,964 @@ describe('resolveLocation — Next.js dev server integration', () => {
     expect(result2).toEqual(result1);
     expect(mockFetch).toHaveBeenCalledTimes(1); // still 1
   });
+
+  function mockOriginalStackFrames(file: string) {
+    return vi.fn((url: string) =>
+      Promise.resolve(
+        url.endsWith('/__nextjs_original-stack-frames')
+          ? {
+              ok: true,
+              json: () =>
+                Promise.resolve([
+                  {
+                    status: 'fulfilled',
+                    value: {
+                      originalStackFrame: {
+                        file,
+                        methodName: 'Page',
+                        arguments: [],
+                        line1: 7,
+                        column1: 3,
+                        ignored: false,
+                      },
+                      originalCodeFrame: null,
+                    },
+                  },
+                ]),
+            }
+          : { ok: false, status: 404, statusText: 'Not Found' }
+      )
+    );
+  }
+
+  it('sends the edge runtime context for edge server frames', async () => {
+    const mockFetch = mockOriginalStackFrames('/app/src/app/page.tsx');
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    await resolveLocation(
+      'at Page (about://React/Server/file:///app/.next/server/edge/chunks/ssr/page_abc._.js?1:5:9)'
+    );
+
+    const [, init] = mockFetch.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ isServer: false, isEdgeServer: true, isAppDirectory: true });
+  });
+
+  it('falls back to the dev server for client chunks without a usable source map', async () => {
+    const mockFetch = mockOriginalStackFrames('/app/src/pages/index.tsx');
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    const result = await resolveLocation(
+      'at Page (http://localhost:3000/_next/static/chunks/pages/index.js:120:14)'
+    );
+
+    expect(result).toMatchObject({ source: '/app/src/pages/index.tsx', line: 7, column: 3 });
+    const [url, init] = mockFetch.mock.calls[1] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:3000/__nextjs_original-stack-frames');
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ isServer: false, isEdgeServer: false, isAppDirectory: false });
+    expect(body.frames[0].file).toBe('http://localhost:3000/_next/static/chunks/pages/index.js');
+  });
+});
+
+describe('resolveLocation — Next.js outside the browser', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('leaves Next.js frames to other strategies without a page origin', async () => {
+    expect(typeof window).toBe('undefined');
+    const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+    globalThis.fetch = mockFetch;
+    const consoleError = vi.spyOn(console, 'error');
+
+    const rsc = await resolveLocationDetailed(
+      'at Page (about://React/Server/file:///Users/me/app/.next/server/chunks/ssr/page.js?3:12:7)'
+    );
+    const client = await resolveLocationDetailed(
+      'at Page (http://localhost:3000/_next/static/chunks/app.js:100:20)'
+    );
+
+    expect(rsc.ok || rsc.failure.reason).toBe('unsupported-url');
+    expect(client.ok || client.failure.reason).toBe('fetch-failed');
+    for (const [url] of mockFetch.mock.calls) expect(url).not.toContain('__nextjs');
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+});
+
+describe('inferNextCompilerContext', () => {
+  it.each([
+    ['/app/.next/server/app/page.js', true, false, true],
+    ['/app/.next/server/pages/index.js', true, false, false],
+    ['/app/.next/server/chunks/ssr/[root-of-the-server]__63dfaf64._.js', true, false, true],
+    ['/app/.next/server/edge/chunks/ssr/page_abc._.js', false, true, true],
+    ['/app/.next/server/edge-chunks/123.js', false, true, true],
+    ['/app/.next/server/edge/pages/api.js', false, true, false],
+    ['http://localhost:3000/_next/static/chunks/app/page.js', false, false, true],
+    ['http://localhost:3000/_next/static/chunks/pages/index.js', false, false, false],
+    ['C:\\app\\.next\\server\\pages\\index.js', true, false, false],
+  ])('%s', (file, isServer, isEdgeServer, isAppDirectory) => {
+    expect(inferNextCompilerContext(file)).toEqual({ isServer, isEdgeServer, isAppDirectory });
+  });
+});
+
+// ─── resolveLocation — RSC endpoint ─────────────────────────────────────────
+
+describe('resolveLocation — RSC endpoint', () => {
+  const originalFetch = globalThis.fetch;
+  let hadWindow: boolean;
+
+  beforeEach(() => {
+    clearCaches();
+    hadWindow = typeof globalThis.window !== 'undefined';
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = {
+        location: { origin: 'http://localhost:3000' },
+      };
+    }
+  });
+
+  afterEach(() => {
+    configureRscEndpoint(undefined);
+    globalThis.fetch = originalFetch;
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = undefined as unknown as Window &
+        typeof globalThis;
+    }
+  });
+
+  const wakuStackLine =
+    'at HomePage (rsc://React/Server/file:///Users/me/waku-app/dist/rsc/page.js?3:12:7)';
+
+  it('is not tried until an endpoint is configured', async () => {
+    await expect(resolveLocationDetailed(wakuStackLine)).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'unsupported-url' },
+    });
+  });
+
+  it('posts the frame and uses the returned location', async () => {
+    configureSourceRoot('/Users/me/waku-app');
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ source: 'src/pages/index.tsx', line: 8, column: 4 }),
+    });
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    configureRscEndpoint({ url: '/__symbolicate' });
+
+    try {
+      const result = await resolveLocation(wakuStackLine);
+
+      expect(result).toMatchObject({
+        source: '/Users/me/waku-app/src/pages/index.tsx',
+        line: 8,
+        column: 4,
+      });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:3000/__symbolicate');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({
+        url: 'rsc://React/Server/file:///Users/me/waku-app/dist/rsc/page.js?3',
+        file: '/Users/me/waku-app/dist/rsc/page.js',
+        line: 12,
+        column: 7,
+        functionName: 'HomePage',
+      });
+    } finally {
+      configureSourceRoot(undefined);
+    }
+  });
+
+  it('resolves against the source map returned by the file adapter', async () => {
+    const sourceMap = JSON.stringify({
+      version: 3,
+      sources: ['file:///Users/me/waku-app/src/pages/index.tsx'],
+      names: [],
+      // Generated 12:7 → index.tsx 3:2
+      mappings: ';;;;;;;;;;;OAEE',
+    });
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve(sourceMap),
+    });
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    configureRscEndpoint(fileSourceMapEndpoint());
+
+    const result = await resolveLocation(wakuStackLine);
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'http://localhost:3000/__show-component/source-map?file=%2FUsers%2Fme%2Fwaku-app%2Fdist%2Frsc%2Fpage.js'
+    );
+    expect(result).toMatchObject({
+      source: '/Users/me/waku-app/src/pages/index.tsx',
+      line: 3,
+      column: 2,
+    });
+  });
+
+  it('reports endpoint errors as rsc-endpoint-rejected', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({ ok: false, status: 500 }) as typeof fetch;
+    configureRscEndpoint(fileSourceMapEndpoint());
+
+    await expect(resolveLocationDetailed(wakuStackLine)).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'rsc-endpoint-rejected', status: 500, strategy: 'rsc-endpoint' },
+    });
+  });
+});
+
+// ─── resolveLocation — webpack eval modules ─────────────────────────────────
+
+describe('resolveLocation — webpack eval modules', () => {
+  const originalFetch = globalThis.fetch;
+  const url = 'webpack-internal:///./src/Foo.tsx';
+  const frame = `at Foo (${url}:2:3)`;
+
+  // The evaluated module, as webpack's eval-source-map devtool emits it
+  function evalModuleCode() {
+    const generator = new SourceMapGenerator({ file: 'Foo.tsx' });
+    generator.addMapping({
+      generated: { line: 2, column: 0 },
+      original: { line: 7, column: 2 },
+      source: 'webpack://test-app/./src/Foo.tsx?8a3c',
+    });
+    const map = Buffer.from(generator.toString()).toString('base64');
+    return [
+      '__webpack_require__.r(__webpack_exports__);',
+      'function Foo() { return null; }',
+      `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${map}`,
+      `//# sourceURL=${url}`,
+      '',
+    ].join('\n');
+  }
+
+  const factorySource = `(module, exports, __webpack_require__) => {\neval(${JSON.stringify(evalModuleCode())});\n}`;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.unstubAllGlobals();
+    clearCaches();
+  });
+
+  it("resolves modules registered in webpack's chunk registry", async () => {
+    // biome-ignore lint/security/noGlobalEval: builds a module factory like webpack's
+    const factory = eval(`(${factorySource})`);
+    vi.stubGlobal('self', {
+      webpackChunktest_app: [[['src_Foo_tsx'], { './src/Foo.tsx': factory }]],
+    });
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({
+      source: 'src/Foo.tsx',
+      line: 7,
+      column: 2,
+    });
+  });
+
+  it('finds entry chunk modules in the scripts of the page', async () => {
+    const mainJs = `var __webpack_modules__ = ({\n"./src/Foo.tsx": (${factorySource})\n});`;
+    const mockFetch = vi.fn(() =>
+      Promise.resolve({ ok: true, text: () => Promise.resolve(mainJs) })
+    );
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    vi.stubGlobal('performance', {
+      getEntriesByType: () => [{ name: 'http://localhost:3000/main.js', initiatorType: 'script' }],
+    });
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ line: 7, column: 2 });
+    await resolveLocation(`at Foo (${url}:2:10)`);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports modules missing from the page', async () => {
+    const result = await resolveLocationDetailed(frame);
+    expect(result).toMatchObject({
+      ok: false,
+      failure: { reason: 'fetch-failed', strategy: 'webpack-eval' },
+    });
+  });
+});
+
+// ─── resolveLocations ───────────────────────────────────────────────────────
+
+describe('resolveLocation — source map locators', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    configureSourceMapLocator(undefined);
+    globalThis.fetch = originalFetch;
+    clearCaches();
+  });
+
+  const frame = 'at Foo (http://localhost:3000/assets/app.js:1:0)';
+  const map = (source: string) =>
+    JSON.stringify({ version: 3, sources: [source], names: ['Foo'], mappings: 'AAAAA' });
+
+  function mockFiles(files: Record<string, string>) {
+    const mockFetch = vi.fn((url: string) =>
+      Promise.resolve(
+        url in files
+          ? { ok: true, text: () => Promise.resolve(files[url]) }
+          : { ok: false, status: 404, statusText: 'Not Found' }
+      )
+    );
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    return mockFetch;
+  }
+
+  it('finds hidden source maps with the .map convention', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': 'function Foo(){}',
+      'http://localhost:3000/assets/app.js.map': map('../src/Foo.tsx'),
+    });
+    configureSourceMapLocator({ locate: conventionalSourceMapLocator });
+
+    const result = await resolveLocation(frame);
+
+    expect(result).toMatchObject({ source: '/src/Foo.tsx', line: 1, name: 'Foo' });
+  });
+
+  it('only consults a fallback locator for chunks without a sourceMappingURL', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': 'function Foo(){}\n//# sourceMappingURL=app.js.map',
+      'http://localhost:3000/assets/app.js.map': map('../src/Foo.tsx'),
+    });
+    const locate = vi.fn(() => 'https://artifacts.example.com/app.js.map');
+    configureSourceMapLocator({ locate });
+
+    const result = await resolveLocation(frame);
+
+    expect(result?.source).toBe('/src/Foo.tsx');
+    expect(locate).not.toHaveBeenCalled();
+  });
+
+  it('prefers the map of an override locator over the sourceMappingURL', async () => {
+    const mockFetch = mockFiles({
+      'http://localhost:3000/assets/app.js': 'function Foo(){}\n//# sourceMappingURL=app.js.map',
+      'https://artifacts.example.com/maps/assets/app.js.map': map('../../src/Uploaded.tsx'),
+    });
+    configureSourceMapLocator({
+      locate: async (chunkUrl) =>
+        `https://artifacts.example.com/maps${new URL(chunkUrl).pathname}.map`,
+      mode: 'override',
+    });
+
+    const result = await resolveLocation(frame);
+
+    expect(result?.source).toBe('/src/Uploaded.tsx');
+    expect(mockFetch).not.toHaveBeenCalledWith(
+      'http://localhost:3000/assets/app.js.map',
+      expect.anything()
+    );
+  });
+
+  it('falls back to the sourceMappingURL when an override locator returns null', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': 'function Foo(){}\n//# sourceMappingURL=app.js.map',
+      'http://localhost:3000/assets/app.js.map': map('../src/Foo.tsx'),
+    });
+    configureSourceMapLocator({ locate: () => null, mode: 'override' });
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ source: '/src/Foo.tsx' });
+  });
+
+  it('reports located maps that fail to load and locators that throw', async () => {
+    mockFiles({ 'http://localhost:3000/assets/app.js': 'function Foo(){}' });
+    configureSourceMapLocator({ locate: conventionalSourceMapLocator });
+
+    await expect(resolveLocationDetailed(frame)).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'source-map-fetch-failed', status: 404 },
+    });
+
+    clearCaches();
+    configureSourceMapLocator({
+      locate: () => {
+        throw new Error('artifact store unavailable');
+      },
+    });
+
+    await expect(resolveLocationDetailed(frame)).resolves.toMatchObject({
+      ok: false,
+      failure: {
+        reason: 'source-map-fetch-failed',
+        message: 'Source map locator failed: artifact store unavailable',
+      },
+    });
+  });
+
+  it.each([
+    ['http://localhost:3000/assets/app.js', 'http://localhost:3000/assets/app.js.map'],
+    ['/assets/app.js?v=3f2a', '/assets/app.js.map?v=3f2a'],
+    ['file:///app/dist/page.js#hash', 'file:///app/dist/page.js.map#hash'],
+  ])('conventionalSourceMapLocator(%s) → %s', (chunkUrl, expected) => {
+    expect(conventionalSourceMapLocator(chunkUrl)).toBe(expected);
+  });
+});
+
+describe('resolveLocation — debug IDs', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    configureDebugIdLookup(undefined);
+    configureSourceMapLocator(undefined);
+    globalThis.fetch = originalFetch;
+    clearCaches();
+  });
+
+  const debugId = '85314830-023f-4cf1-a267-535f4e37bb17';
+  const frame = 'at Foo (http://localhost:3000/assets/app.js:1:0)';
+  const map = (source: string, id = debugId) =>
+    JSON.stringify({ version: 3, debugId: id, sources: [source], names: [], mappings: 'AAAA' });
+
+  function mockFiles(files: Record<string, string>) {
+    const mockFetch = vi.fn((url: string) =>
+      Promise.resolve(
+        url in files
+          ? { ok: true, text: () => Promise.resolve(files[url]) }
+          : { ok: false, status: 404, statusText: 'Not Found' }
+      )
+    );
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    return mockFetch;
+  }
+
+  it('looks up source maps by debug ID before the sourceMappingURL', async () => {
+    const mockFetch = mockFiles({
+      'http://localhost:3000/assets/app.js': `function Foo(){}\n//# debugId=${debugId}\n//# sourceMappingURL=app.js.map`,
+      [`http://localhost:3000/__source-maps/${debugId}.map`]: map('../src/Foo.tsx'),
+    });
+    configureDebugIdLookup(debugIdDirectory('/__source-maps'));
+
+    const result = await resolveLocation(frame);
+
+    expect(result).toMatchObject({ source: '/src/Foo.tsx', line: 1 });
+    expect(mockFetch).not.toHaveBeenCalledWith(
+      'http://localhost:3000/assets/app.js.map',
+      expect.anything()
+    );
+  });
+
+  it('resolves with maps from an in-memory registry', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': `function Foo(){}\n//# debugId=${debugId}`,
+    });
+    const registry = createDebugIdRegistry();
+    registry.register(map('../src/Registered.tsx'));
+    configureDebugIdLookup(registry.lookup);
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ source: '/src/Registered.tsx' });
+  });
+
+  it('falls back to the sourceMappingURL for unknown debug IDs', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': `function Foo(){}\n//# debugId=${debugId}\n//# sourceMappingURL=app.js.map`,
+      'http://localhost:3000/assets/app.js.map': map('../src/Foo.tsx'),
+    });
+    configureDebugIdLookup(createDebugIdRegistry().lookup);
+
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ source: '/src/Foo.tsx' });
+  });
+
+  it('rejects source maps whose debug ID differs from the chunk', async () => {
+    mockFiles({
+      'http://localhost:3000/assets/app.js': `function Foo(){}\n//# debugId=${debugId}`,
+      'http://localhost:3000/assets/app.js.map': map(
+        '../src/Foo.tsx',
+        '00000000-0000-4000-8000-000000000000'
+      ),
+    });
+    configureSourceMapLocator({ locate: conventionalSourceMapLocator });
+
+    await expect(resolveLocationDetailed(frame)).resolves.toMatchObject({
+      ok: false,
+      failure: {
+        reason: 'debug-id-mismatch',
+        url: 'http://localhost:3000/assets/app.js',
+      },
+    });
+  });
+});
+
+describe('resolveLocations', () => {
+  const originalFetch = globalThis.fetch;
+  let hadWindow: boolean;
+
+  beforeEach(() => {
+    clearCaches();
+    hadWindow = typeof globalThis.window !== 'undefined';
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = {
+        location: { origin: 'http://localhost:3000' },
+      };
+    }
+  });
+
+  afterEach(() => {
+    configureResolver(undefined);
+    globalThis.fetch = originalFetch;
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = undefined as unknown as Window &
+        typeof globalThis;
+    }
+  });
+
+  // Line 1, col 0 → Foo.tsx 1:0 ("Foo");  line 2, col 0 → Bar.tsx 5:2 ("Bar")
+  const sourceMap = JSON.stringify({
+    version: 3,
+    sources: ['Foo.tsx', 'Bar.tsx'],
+    names: ['Foo', 'Bar'],
+    mappings: 'AAAAA;ACIEC',
+  });
+
+  function mockChunkFetch(map = sourceMap) {
+    const mockFetch = vi.fn((url: string) =>
+      Promise.resolve({
+        ok: true,
+        text: () => Promise.resolve(url.endsWith('.map') ? map : '//# sourceMappingURL=app.js.map'),
+      })
+    );
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    return mockFetch;
+  }
+
+  it('returns results in input order, with null for unresolvable entries', async () => {
+    mockChunkFetch();
+
+    const results = await resolveLocations([
+      'at Bar (http://localhost:3000/src/app.js:2:0)',
+      undefined,
+      'not a stack frame',
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+    ]);
+
+    expect(results).toHaveLength(4);
+    expect(results[0]).toMatchObject({ source: '/src/Bar.tsx', line: 5, column: 2, name: 'Bar' });
+    expect(results[1]).toBeNull();
+    expect(results[2]).toBeNull();
+    expect(results[3]).toMatchObject({ source: '/src/Foo.tsx', line: 1, column: 0, name: 'Foo' });
+  });
+
+  it('fetches each chunk and its source map only once', async () => {
+    const mockFetch = mockChunkFetch();
+
+    await resolveLocations([
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+      'at Bar (http://localhost:3000/src/app.js:2:0)',
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+    ]);
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:3000/src/app.js',
+      'http://localhost:3000/src/app.js.map',
+    ]);
+  });
+
+  it('shares in-flight loads between concurrent resolveLocation calls', async () => {
+    const mockFetch = mockChunkFetch();
+
+    await Promise.all([
+      resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)'),
+      resolveLocation('at Bar (http://localhost:3000/src/app.js:2:0)'),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts only the chunks matching the clearCaches predicate', async () => {
+    const mockFetch = mockChunkFetch();
+    const frames = [
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+      'at Foo (http://localhost:3000/src/other.js:1:0)',
+    ];
+    await resolveLocations(frames);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+
+    clearCaches((url) => url.endsWith('/app.js'));
+    await resolveLocations(frames);
+
+    expect(mockFetch.mock.calls.slice(4).map(([url]) => url)).toEqual([
+      'http://localhost:3000/src/app.js',
+      'http://localhost:3000/src/app.js.map',
+    ]);
+  });
+
+  it('evicts the oldest source maps once maxMapBytes is exceeded', async () => {
+    // Room for one chunk + map only
+    configureResolver({ maxMapBytes: 400 });
+    const mockFetch = mockChunkFetch();
+
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    await resolveLocation('at Foo (http://localhost:3000/src/other.js:1:0)');
+    await resolveLocation('at Bar (http://localhost:3000/src/other.js:2:0)');
+    await resolveLocation('at Bar (http://localhost:3000/src/app.js:2:0)');
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:3000/src/app.js',
+      'http://localhost:3000/src/app.js.map',
+      'http://localhost:3000/src/other.js',
+      'http://localhost:3000/src/app.js.map',
+      'http://localhost:3000/src/app.js',
+      'http://localhost:3000/src/app.js.map',
+    ]);
+    expect(getCacheStats().sourceMaps.entries).toBe(1);
+  });
+
+  it('keeps the source map cache size in step with evictions and partial clears', async () => {
+    mockChunkFetch();
+    const chunkBytes = 2 * ('//# sourceMappingURL=app.js.map'.length + sourceMap.length);
+
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    await resolveLocation('at Foo (http://localhost:3000/src/other.js:1:0)');
+    expect(getCacheStats().sourceMaps).toMatchObject({ entries: 2, bytes: 2 * chunkBytes });
+
+    clearCaches((url) => url.endsWith('/app.js'));
+    expect(getCacheStats().sourceMaps).toMatchObject({ entries: 1, bytes: chunkBytes });
+
+    configureResolver({ maxMapBytes: chunkBytes });
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    expect(getCacheStats().sourceMaps).toMatchObject({ entries: 1, bytes: chunkBytes });
+  });
+
+  it('keeps at most maxResults resolved locations', async () => {
+    configureResolver({ maxResults: 1 });
+    mockChunkFetch();
+
+    await resolveLocations([
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+      'at Bar (http://localhost:3000/src/app.js:2:0)',
+    ]);
+
+    expect(getCacheStats().results.entries).toBe(1);
+  });
+
+  it('reports cache hits and misses per layer', async () => {
+    mockChunkFetch();
+
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    await resolveLocation('at Bar (http://localhost:3000/src/app.js:2:0)');
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+
+    const stats = getCacheStats();
+    expect(stats.results).toMatchObject({ entries: 2, hits: 1, misses: 2 });
+    expect(stats.results.hitRate).toBeCloseTo(1 / 3);
+    expect(stats.results.bytes).toBeGreaterThan(0);
+    expect(stats.sourceMaps).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: 0.5 });
+    expect(stats.sourceMaps.bytes).toBeGreaterThan(0);
+
+    clearCaches();
+    expect(getCacheStats().results).toEqual({
+      entries: 0,
+      bytes: 0,
+      hits: 0,
+      misses: 0,
+      hitRate: 0,
+    });
+  });
+
+  it('builds code frames from the embedded source content', async () => {
+    mockChunkFetch(
+      JSON.stringify({
+        version: 3,
+        sources: ['Foo.tsx'],
+        sourcesContent: ['function Foo() {\n  const x = 1;\n  return <div>{x}</div>;\n}\n'],
+        names: [],
+        // Generated 1:0 → Foo.tsx 3:9
+        mappings: 'AAES',
+      })
+    );
+
+    const [result] = await resolveLocations(
+      ['at Foo (http://localhost:3000/src/app.js:1:0)'],
+      false,
+      { codeFrame: 1 }
+    );
+
+    expect(result?.codeFrame).toBe(
+      [
+        '  2 |   const x = 1;',
+        '> 3 |   return <div>{x}</div>;',
+        '    |          ^',
+        '  4 | }',
+      ].join('\n')
+    );
+  });
+
+  it('flags positions that map into ignore-listed sources', async () => {
+    mockChunkFetch(
+      JSON.stringify({
+        version: 3,
+        sections: [
+          {
+            offset: { line: 0, column: 0 },
+            map: { version: 3, sources: ['Foo.tsx'], names: ['Foo'], mappings: 'AAAAA' },
+          },
+          {
+            offset: { line: 1, column: 0 },
+            map: {
+              version: 3,
+              sources: ['node_modules/lib/Bar.js'],
+              names: ['Bar'],
+              mappings: 'AAAAA',
+              x_google_ignoreList: [0],
+            },
+          },
+        ],
+      })
+    );
+
+    const [own, library] = await resolveLocations([
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+      'at Bar (http://localhost:3000/src/app.js:2:0)',
+    ]);
+
+    expect(own?.ignoreListed).toBeUndefined();
+    expect(library).toMatchObject({ name: 'Bar', ignoreListed: true });
+  });
+
+  it('flags positions in dependencies pre-bundled by Vite', async () => {
+    mockChunkFetch(
+      JSON.stringify({
+        version: 3,
+        sources: ['../../react-dom/cjs/react-dom-client.development.js'],
+        names: ['renderWithHooks'],
+        mappings: 'AAAAA',
+      })
+    );
+
+    const [own, dependency] = await resolveLocations([
+      'at Foo (http://localhost:3000/src/app.js:1:0)',
+      'at renderWithHooks (http://localhost:5173/node_modules/.vite/deps/react-dom_client.js?v=1a2b:1:0)',
+    ]);
+
+    expect(own?.ignoreListed).toBeUndefined();
+    expect(dependency).toMatchObject({ name: 'renderWithHooks', ignoreListed: true });
+  });
+
+  it('resolves to null when a request exceeds the timeout', async () => {
+    const mockFetch = vi.fn(() => new Promise(() => {}));
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)', false, {
+      timeout: 10,
+    });
+
+    expect(result).toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('rejects with an AbortError when the signal aborts', async () => {
+    let release: () => void = () => {};
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const mockFetch = mockChunkFetch();
+    globalThis.fetch = vi.fn((url: string) =>
+      gate.then(() => mockFetch(url))
+    ) as unknown as typeof fetch;
+    const controller = new AbortController();
+
+    const frame = 'at Foo (http://localhost:3000/src/app.js:1:0)';
+    const pending = resolveLocation(frame, false, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+
+    // The shared load keeps going for other callers
+    release();
+    await expect(resolveLocation(frame)).resolves.toMatchObject({ source: '/src/Foo.tsx' });
+  });
+});
+
+// ─── resolveLocationDetailed ─────────────────────────────────────────────────
+
+describe('resolveLocationDetailed', () => {
+  const originalFetch = globalThis.fetch;
+  let hadWindow: boolean;
+
+  beforeEach(() => {
+    clearCaches();
+    hadWindow = typeof globalThis.window !== 'undefined';
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = {
+        location: { origin: 'http://localhost:3000' },
+      };
+    }
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (!hadWindow) {
+      (globalThis as unknown as Record<string, unknown>).window = undefined as unknown as Window &
+        typeof globalThis;
+    }
+  });
+
+  const frame = 'at Foo (http://localhost:3000/src/app.js:1:0)';
+
+  function mockResponses(chunk: Response | object, map?: Response | object) {
+    globalThis.fetch = vi.fn((url: string) =>
+      Promise.resolve(url.endsWith('.map') ? map : chunk)
+    ) as unknown as typeof fetch;
+  }
+
+  function text(body: string) {
+    return { ok: true, text: () => Promise.resolve(body) };
+  }
+
+  it('returns the location when the frame resolves', async () => {
+    mockResponses(
+      text('//# sourceMappingURL=app.js.map'),
+      text(JSON.stringify({ version: 3, sources: ['Foo.tsx'], names: [], mappings: 'AAAA' }))
+    );
+
+    const outcome = await resolveLocationDetailed(frame);
+    expect(outcome).toMatchObject({ ok: true, location: { source: '/src/Foo.tsx', line: 1 } });
+  });
+
+  it('reports HTTP failures of the chunk with their status', async () => {
+    mockResponses({ ok: false, status: 404, statusText: 'Not Found' });
+
+    const outcome = await resolveLocationDetailed(frame);
+    expect(outcome).toEqual({
+      ok: false,
+      failure: {
+        reason: 'fetch-failed',
+        message: 'Failed to fetch source file: 404 Not Found',
+        url: 'http://localhost:3000/src/app.js',
+        status: 404,
+        strategy: 'source-map',
+      },
+    });
+    await expect(resolveLocation(frame)).resolves.toBeNull();
+  });
+
+  it('reports chunks without a source map', async () => {
+    mockResponses(text('console.log(1);'));
+
+    const outcome = await resolveLocationDetailed(frame);
+    expect(outcome).toMatchObject({
+      ok: false,
+      failure: { reason: 'no-source-map', url: 'http://localhost:3000/src/app.js' },
+    });
+  });
+
+  it('reports source maps that fail to load or parse', async () => {
+    mockResponses(text('//# sourceMappingURL=app.js.map'), {
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error',
+    });
+    await expect(resolveLocationDetailed(frame)).resolves.toMatchObject({
+      ok: false,
+      failure: {
+        reason: 'source-map-fetch-failed',
+        url: 'http://localhost:3000/src/app.js.map',
+        status: 500,
+      },
+    });
+
+    clearCaches();
+    mockResponses(text('//# sourceMappingURL=app.js.map'), text('<!doctype html>'));
+    await expect(resolveLocationDetailed(frame)).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'invalid-source-map' },
+    });
+  });
+
+  it('reports unparseable frames and URLs no strategy handles', async () => {
+    await expect(resolveLocationDetailed('not a stack frame')).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'unparseable-frame' },
+    });
+    await expect(
+      resolveLocationDetailed('at Foo (chrome-extension://abc/content.js:1:0)')
+    ).resolves.toMatchObject({
+      ok: false,
+      failure: { reason: 'unsupported-url', url: 'chrome-extension://abc/content.js' },
+    });
+  });
+});
+
+// ─── resolveOriginalName ─────────────────────────────────────────────────────
+
+describe('resolveOriginalName', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    clearCaches();
+  });
+
+  // Two minified modules that both name their component `t`
+  const chunk = [
+    'function t(e){return e}',
+    'function t(e){return n(e)}',
+    '//# sourceMappingURL=app.js.map',
+  ].join('\n');
+
+  function minifiedMap() {
+    const generator = new SourceMapGenerator({ file: 'app.js' });
+    const definitions: Array<[number, string, string]> = [
+      [1, 'Helper.tsx', 'Helper'],
+      [2, 'ProfileCard.tsx', 'ProfileCard'],
+    ];
+    for (const [line, source, name] of definitions) {
+      generator.addMapping({
+        generated: { line, column: 9 },
+        original: { line: 1, column: 9 },
+        source,
+        name,
+      });
+      generator.addMapping({
+        generated: { line, column: 21 },
+        original: { line: 2, column: 2 },
+        source,
+      });
+    }
+    return generator.toString();
+  }
+
+  function mockChunkFetch(map: string) {
+    const mockFetch = vi.fn((url: string) =>
+      Promise.resolve({ ok: true, text: () => Promise.resolve(url.endsWith('.map') ? map : chunk) })
+    );
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    return mockFetch;
+  }
+
+  const frame = 'at t (http://localhost:3000/src/app.js:2:21)';
+
+  it('returns the name mapped at the definition enclosing the frame', async () => {
+    mockChunkFetch(minifiedMap());
+    await expect(resolveOriginalName(frame, 't')).resolves.toBe('ProfileCard');
+  });
+
+  it('caches the result', async () => {
+    const mockFetch = mockChunkFetch(minifiedMap());
+    await resolveOriginalName(frame, 't');
+    await resolveOriginalName(frame, 't');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null when the definition has no name mapping', async () => {
+    mockChunkFetch(
+      JSON.stringify({ version: 3, sources: ['App.tsx'], names: [], mappings: ';AAAA' })
+    );
+    await expect(resolveOriginalName(frame, 't')).resolves.toBeNull();
+  });
+
+  it('returns null when the chunk cannot be loaded', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' })
+    ) as unknown as typeof fetch;
+    await expect(resolveOriginalName(frame, 't')).resolves.toBeNull();
+  });
 });
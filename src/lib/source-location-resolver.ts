@@ -1,51 +1,291 @@
-import { SourceMapConsumer } from '@jridgewell/source-map';
+import { type SectionedSourceMapInput, SourceMapConsumer } from '@jridgewell/source-map';
 import * as convertSourceMap from 'convert-source-map';
-
-export interface StackFrameInfo {
-  url: string;
-  line: number;
-  column: number;
-  functionName?: string;
-}
+import { DEFAULT_CODE_FRAME_LINES, buildCodeFrame, stripAnsi } from './code-frame';
+import {
+  type DebugIdLookup,
+  type DebugIdLookupResult,
+  extractDebugId,
+  getDebugIdLookup,
+  getSourceMapDebugId,
+  isDebugIdMismatch,
+} from './debug-id';
+import { fileUrlToPath, isWindowsAbsolutePath, normalizeFsPath } from './fs-path';
+import { findDefinition } from './original-name';
+import {
+  clearPersistentCache,
+  computeFingerprint,
+  getPersistedResult,
+  getPersistedSourceMap,
+  isPersistentCacheEnabled,
+  putPersistedResult,
+  putPersistedSourceMap,
+} from './persistent-cache';
+import { type RawSourceMap, isRawSourceMap } from './raw-source-map';
+import {
+  type RequestLimits,
+  createAbortError,
+  isAbortError,
+  raceAbort,
+  requestWithLimits,
+  throwIfAborted,
+} from './request-limits';
+import { ResolveError, type ResolveFailure, toResolveFailure } from './resolve-error';
+import { getMaxMapBytes, getMaxResults, usesDefaultRequests } from './resolver-config';
+import { getResolverStrategies, registerBuiltinResolverStrategy } from './resolver-strategies';
+import { type RscEndpointResult, type RscFrame, getRscEndpoint } from './rsc-endpoint';
+import {
+  type LoadedSource,
+  type SourceKind,
+  fetchSourceLoader,
+  getPageOrigin,
+  getSourceLoader,
+  hasNonFetchableScheme,
+  toFetchUrl,
+} from './source-loader';
+import { type SourceMapLocatorConfig, getSourceMapLocator } from './source-map-locator';
+import {
+  type SourceMapWorkerResponse,
+  type SourceMapWorkerResult,
+  clearSourceMapWorker,
+  getSourceMapWorkerCacheSize,
+  isSourceMapWorkerAvailable,
+  resolveInSourceMapWorker,
+} from './source-map-worker';
+import {
+  clearDiscoveredSourceRoot,
+  discoverSourceRoot,
+  getDiscoveredSourceRoot,
+} from './source-root-discovery';
+import { type StackFrameInfo, parseStackFrame } from './stack-frame-parser';
+import { isVitePrebundledDep, resolveVitePath, viteFsPath } from './vite-paths';
+import {
+  extractEvalModule,
+  findModuleInRegistry,
+  getPageScriptUrls,
+  isWebpackInternalUrl,
+} from './webpack-eval';
+
+export type { StackFrameInfo };
 
 export interface OriginalSourceInfo {
   source: string;
   line: number;
   column: number;
   name?: string;
+  /**
+   * `true` when the source is listed in the source map's `ignoreList` /
+   * `x_google_ignoreList` (or Next.js reports the frame as ignored) —
+   * i.e. third-party code the bundler marked as uninteresting.
+   */
+  ignoreListed?: boolean;
 }
 
 export interface ResolvedSourceInfo extends OriginalSourceInfo {
   sourceContent?: string;
+  /**
+   * Lines around the resolved location with the target line and column
+   * marked — only present when requested via `ResolveLocationOptions.codeFrame`.
+   * Built from `sourceContent` when available, otherwise taken from the
+   * resolver (e.g. the Next.js dev server's own code frame).
+   */
+  codeFrame?: string;
+}
+
+export interface ResolveLocationOptions {
+  /**
+   * Attach a `codeFrame` to the result: `true` for 2 lines of context above
+   * and below the target line, or a number for a custom amount.
+   */
+  codeFrame?: boolean | number;
+  /**
+   * Cancels the resolution: `resolveLocation` rejects with an `AbortError`
+   * as soon as the signal aborts.
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout in milliseconds for each network request made while resolving
+   * (chunk, source map, dev server endpoints).  A request that takes longer
+   * fails like a network error, so the frame resolves to `null` (or the next
+   * strategy's result) instead of waiting forever.
+   */
+  timeout?: number;
+}
+
+/** Outcome of {@link resolveLocationDetailed}. */
+export type DetailedResolveResult =
+  | { ok: true; location: ResolvedSourceInfo }
+  | { ok: false; failure: ResolveFailure };
+
+interface ParsedSourceMap {
+  consumer: SourceMapConsumer;
+  sourceRoot?: string;
+  /** Sources (as reported by `consumer`) listed in `ignoreList` / `x_google_ignoreList`. */
+  ignoredSources: Set<string | null>;
 }
 
 interface CachedSourceMapData {
   sourceContent: string;
   sourceMapContent: string;
+  /** Absolute URL the chunk was fetched from. */
+  effectiveUrl: string;
+  /** Chunk fingerprint (ETag or content hash) — set when the persistent cache is enabled. */
+  fingerprint?: string;
+  /** Parsed on first lookup and reused for every later position in the same chunk. */
+  parsed?: ParsedSourceMap;
+  /** `true` once the map text has been handed to the source map worker. */
+  sentToWorker?: boolean;
 }
 
 interface CachedResult {
   originalSource: ResolvedSourceInfo;
 }
 
-const MAX_RESULT_CACHE_SIZE = 500;
-const MAX_SOURCE_MAP_CACHE_SIZE = 100;
+interface FetchedChunk {
+  content: string;
+  effectiveUrl: string;
+  /** Set when the persistent cache is enabled. */
+  fingerprint?: string;
+  /** `_cacheGeneration` when the fetch started. */
+  generation: number;
+}
 
-/** Sets a value on a Map, evicting the oldest entry if the map exceeds `maxSize`. */
+/** Sets a value on a Map, evicting the oldest entries while the map exceeds `maxSize`. */
 function boundedSet<K, V>(map: Map<K, V>, key: K, value: V, maxSize: number): void {
   map.delete(key); // re-insert to refresh position (Map preserves insertion order)
   map.set(key, value);
-  if (map.size > maxSize) {
+  while (map.size > Math.max(1, maxSize)) {
     // The first key is the oldest entry
     const oldest = map.keys().next().value;
-    if (oldest !== undefined) {
-      map.delete(oldest);
-    }
+    if (oldest === undefined) break;
+    map.delete(oldest);
   }
 }
 
-const sourceMapCache = new Map<string, CachedSourceMapData>();
+/** Total size of the distinct values in `map` (a value cached under two keys counts once). */
+function totalSize<K, V>(map: Map<K, V>, sizeOf: (value: V) => number): number {
+  let total = 0;
+  for (const value of new Set(map.values())) total += sizeOf(value);
+  return total;
+}
+
+/** A Map bounded by the total size of its values, see `sizeBoundedSet`. */
+interface SizedCache<V> {
+  map: Map<string, V>;
+  /** Running size of the distinct values in `map`. */
+  bytes: number;
+  /** How many keys each value is cached under — it counts once towards `bytes`. */
+  refs: Map<V, number>;
+  sizeOf: (value: V) => number;
+}
+
+function createSizedCache<V>(sizeOf: (value: V) => number): SizedCache<V> {
+  return { map: new Map(), bytes: 0, refs: new Map(), sizeOf };
+}
+
+function sizedDelete<V>(cache: SizedCache<V>, key: string): void {
+  if (!cache.map.has(key)) return;
+  const value = cache.map.get(key) as V;
+  cache.map.delete(key);
+  const refs = (cache.refs.get(value) ?? 1) - 1;
+  if (refs > 0) {
+    cache.refs.set(value, refs);
+  } else {
+    cache.refs.delete(value);
+    cache.bytes -= cache.sizeOf(value);
+  }
+}
+
+function sizedClear<V>(cache: SizedCache<V>): void {
+  cache.map.clear();
+  cache.refs.clear();
+  cache.bytes = 0;
+}
+
+/**
+ * Sets a value on a sized cache, evicting the oldest entries while the values
+ * exceed `maxBytes` in total.  The new value itself is never evicted.
+ */
+function sizeBoundedSet<V>(cache: SizedCache<V>, key: string, value: V, maxBytes: number): void {
+  sizedDelete(cache, key); // re-insert to refresh position
+  cache.map.set(key, value);
+  const refs = cache.refs.get(value) ?? 0;
+  cache.refs.set(value, refs + 1);
+  if (refs === 0) cache.bytes += cache.sizeOf(value);
+
+  // Deleting the entry being visited doesn't disturb a Map iteration
+  for (const [oldestKey, oldestValue] of cache.map) {
+    if (cache.bytes <= maxBytes) break;
+    if (oldestValue !== value) sizedDelete(cache, oldestKey);
+  }
+}
+
+// JavaScript strings are UTF-16 — two bytes per character
+function sizeOfSourceMapData(data: CachedSourceMapData): number {
+  return 2 * (data.sourceContent.length + data.sourceMapContent.length);
+}
+
+function sizeOfResult({ originalSource }: CachedResult): number {
+  return (
+    2 *
+    (originalSource.source.length +
+      (originalSource.sourceContent?.length ?? 0) +
+      (originalSource.codeFrame?.length ?? 0))
+  );
+}
+
+const sourceMapCache = createSizedCache(sizeOfSourceMapData);
 const resultCache = new Map<string, CachedResult>();
+/** Original names by `url:line:column:generatedName` — `null` when there is none. */
+const originalNameCache = new Map<string, string | null>();
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+const resultCounters: CacheCounters = { hits: 0, misses: 0 };
+const sourceMapCounters: CacheCounters = { hits: 0, misses: 0 };
+
+function countLookup(counters: CacheCounters, hit: boolean): void {
+  if (hit) counters.hits++;
+  else counters.misses++;
+}
+
+// In-flight loads keyed by chunk URL.  Concurrent resolutions of frames in
+// the same chunk (e.g. a whole component chain) share one fetch instead of
+// each downloading the chunk and its map before the L2 cache is filled.
+const inFlightChunks = new Map<string, Promise<FetchedChunk>>();
+const inFlightSourceMaps = new Map<string, Promise<CachedSourceMapData | null>>();
+/** Page scripts searched for webpack eval modules, by URL (see `webpack-eval.ts`). */
+const webpackScriptCache = createSizedCache((text: string) => 2 * text.length);
+// Bumped by `clearCaches()`: a resolution that started before a clear may
+// have used code a hot update replaced, so its result is not cached.
+let _cacheGeneration = 0;
+
+/** Returns the pending promise for `key`, starting `load` only if none is in flight. */
+function shareInFlight<T>(
+  inFlight: Map<string, Promise<T>>,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const started: Promise<T> = load().then(
+      (value) => {
+        // `clearCaches()` may have dropped this load and another one started
+        if (inFlight.get(key) === started) inFlight.delete(key);
+        return value;
+      },
+      (error) => {
+        if (inFlight.get(key) === started) inFlight.delete(key);
+        throw error;
+      }
+    );
+    inFlight.set(key, started);
+    pending = started;
+  }
+  return pending;
+}
 
 // ─── Source root configuration ──────────────────────────────────────────────
 // Allows converting URL-relative paths (e.g. /src/scenarios/DeepChain.tsx)
@@ -56,23 +296,39 @@ const resultCache = new Map<string, CachedResult>();
 //   2. window.__SHOW_COMPONENT_SOURCE_ROOT__ = '/abs/path'  — global
 //   3. <ShowComponent sourceRoot="/abs/path" />              — prop (calls #1)
 //
-// When unset, resolved paths are URL-relative (e.g. /src/scenarios/Foo.tsx).
+// When unset, the root is discovered from the dev server where possible
+// (see source-root-discovery.ts); otherwise resolved paths stay URL-relative
+// (e.g. /src/scenarios/Foo.tsx).
 
 let _sourceRoot: string | undefined;
 
 export function configureSourceRoot(root: string | undefined): void {
-  _sourceRoot = root ? root.replace(/\/+$/, '') : undefined;
+  _sourceRoot = root ? normalizeFsPath(root) : undefined;
 }
 
-function getSourceRoot(): string | undefined {
-  return (
-    _sourceRoot ??
-    (typeof window !== 'undefined'
+function getConfiguredSourceRoot(): string | undefined {
+  if (_sourceRoot !== undefined) return _sourceRoot;
+  const globalRoot =
+    typeof window !== 'undefined'
       ? ((window as unknown as Record<string, unknown>).__SHOW_COMPONENT_SOURCE_ROOT__ as
           | string
           | undefined)
-      : undefined)
-  );
+      : undefined;
+  return globalRoot ? normalizeFsPath(globalRoot) : globalRoot;
+}
+
+function getSourceRoot(): string | undefined {
+  return getConfiguredSourceRoot() ?? getDiscoveredSourceRoot()?.sourceRoot;
+}
+
+/**
+ * Returns the configured source root, or tries to discover it from the dev
+ * server when none is configured.  <ShowComponent> calls this on mount so the
+ * root is known before the first click.
+ */
+export function detectSourceRoot(debug?: boolean): Promise<string | undefined> {
+  const configured = getConfiguredSourceRoot();
+  return configured ? Promise.resolve(configured) : discoverSourceRoot(debug);
 }
 
 /**
@@ -97,33 +353,69 @@ export function resolveSourcePath(
   // Strip file:// protocol — Turbopack emits sources like
   // "file:///Users/me/project/src/Foo.tsx" which are already absolute
   // filesystem paths once the scheme is removed.
+  // On Windows they look like "file:///C:/Users/me/project/src/Foo.tsx".
   if (rawSource.startsWith('file://')) {
-    const stripped = rawSource.replace(/^file:\/\//, '');
-    // After removing "file://" we have "/Users/me/project/…" (absolute)
-    if (stripped.startsWith('/')) {
-      return stripped;
-    }
+    return fileUrlToPath(rawSource);
+  }
+
+  // Vite's /@fs/ and /@id/ paths — filesystem paths and module ids the
+  // source root doesn't apply to (see vite-paths.ts)
+  const vitePath = resolveVitePath(rawSource);
+  if (vitePath !== null) return vitePath;
+
+  // Windows absolute paths (webpack on Windows: "C:\\Users\\me\\…", UNC
+  // shares like "\\\\wsl$\\Ubuntu\\…") — already absolute, only separators change
+  if (isWindowsAbsolutePath(rawSource)) {
+    return normalizeFsPath(rawSource);
   }
 
   // Already an absolute filesystem path — nothing to do
   if (rawSource.startsWith('/') && !rawSource.startsWith('//')) {
     const fsRoot = getSourceRoot();
-    // If it already looks absolute AND has enough depth, trust it
-    if (rawSource.includes('/src/') || rawSource.includes('/node_modules/')) {
+    // If it already looks absolute AND has enough depth, trust it — as well
+    // as any absolute source of a module Vite serves by its absolute path
+    if (
+      rawSource.includes('/src/') ||
+      rawSource.includes('/node_modules/') ||
+      viteFsPath(sourceFileUrl) !== null
+    ) {
       return rawSource;
     }
     return fsRoot ? fsRoot + rawSource : rawSource;
   }
 
-  // Strip webpack:/// or similar protocol prefixes
-  let cleaned = rawSource.replace(/^webpack:\/\/\//, '').replace(/^\.\/?/, '');
+  // Strip webpack:/// or webpack://<namespace>/ prefixes, and the module hash
+  // webpack's eval devtools append ("webpack://app/./src/Foo.tsx?3f2a")
+  let cleaned = rawSource;
+  if (cleaned.startsWith('webpack://')) {
+    cleaned = cleaned.replace(/^webpack:\/\/[^/]*\//, '').replace(/\?[0-9a-f]+$/, '');
+  }
+  cleaned = cleaned.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (isWindowsAbsolutePath(cleaned)) return normalizeFsPath(cleaned);
 
   // If the source map provided a sourceRoot, use it
   if (sourceMapSourceRoot && sourceMapSourceRoot !== '/' && sourceMapSourceRoot !== '') {
+    // A file:// or Windows sourceRoot is a filesystem path — the joined path is final
+    if (sourceMapSourceRoot.startsWith('file://')) {
+      return `${fileUrlToPath(sourceMapSourceRoot)}/${cleaned}`;
+    }
+    if (isWindowsAbsolutePath(sourceMapSourceRoot)) {
+      return `${normalizeFsPath(sourceMapSourceRoot)}/${cleaned}`;
+    }
     const root = sourceMapSourceRoot.replace(/\/+$/, '');
     cleaned = `${root}/${cleaned}`;
   }
 
+  // Chunks loaded from disk (see `createNodeSourceLoader`): relative sources
+  // are filesystem paths relative to the chunk
+  if (!cleaned.startsWith('/') && sourceFileUrl.startsWith('file://')) {
+    try {
+      return fileUrlToPath(decodeURI(new URL(cleaned, sourceFileUrl).href));
+    } catch {
+      // Malformed URL — fall through with what we have
+    }
+  }
+
   // If still relative, resolve against the source file URL
   if (!cleaned.startsWith('/') && !cleaned.startsWith('http')) {
     try {
@@ -137,6 +429,11 @@ export function resolveSourcePath(
     }
   }
 
+  // Relative sources of modules Vite serves from /@fs/ (linked workspace
+  // packages) resolve to /@fs/ paths
+  const resolvedVitePath = resolveVitePath(cleaned);
+  if (resolvedVitePath !== null) return resolvedVitePath;
+
   // If a filesystem source root is configured, convert URL path → absolute path
   const fsRoot = getSourceRoot();
   if (fsRoot && cleaned.startsWith('/')) {
@@ -147,41 +444,11 @@ export function resolveSourcePath(
 }
 
 /**
- * Extracts URL, line, and column from a stack trace frame.
- *
- * Supported formats:
- *   - Chrome/V8:  `at fn (url:line:col)` or `at url:line:col`
- *   - Firefox/Safari: `fn@url:line:col`
+ * Extracts URL, line, and column from a stack trace frame.  See
+ * `stack-frame-parser.ts` for the supported formats (V8, Firefox, Safari).
  */
 export function extractStackFrameInfo(stackLine: string): StackFrameInfo | null {
-  const patterns = [
-    /at\s+([^(]+)\s*\((.+):(\d+):(\d+)\)/, // at fn (url:line:col)
-    /at\s+(.+):(\d+):(\d+)/, // at url:line:col
-    /([^@]+)@(.+):(\d+):(\d+)/, // fn@url:line:col
-  ];
-
-  for (const pattern of patterns) {
-    const match = stackLine.match(pattern);
-    if (match) {
-      if (match.length === 5) {
-        return {
-          functionName: match[1].trim(),
-          url: match[2],
-          line: Number.parseInt(match[3], 10),
-          column: Number.parseInt(match[4], 10),
-        };
-      }
-      if (match.length === 4) {
-        return {
-          url: match[1],
-          line: Number.parseInt(match[2], 10),
-          column: Number.parseInt(match[3], 10),
-        };
-      }
-    }
-  }
-
-  return null;
+  return parseStackFrame(stackLine);
 }
 
 /**
@@ -211,6 +478,11 @@ function isNextjsRscUrl(url: string): boolean {
   return isReactServerUrl(url) && url.includes('/.next/');
 }
 
+/** Returns `true` for Next.js client chunks (`/_next/static/…`), absolute or root-relative. */
+function isNextjsClientChunkUrl(url: string): boolean {
+  return !hasNonFetchableScheme(url) && url.includes('/_next/static/');
+}
+
 /**
  * Extracts the absolute filesystem path from an RSC debug URL.
  * URL-decodes the path to handle percent-encoded characters (e.g. %5B → [).
@@ -256,6 +528,43 @@ type NextOriginalStackFramesResponse = Array<
   | { status: 'rejected'; reason: string }
 >;
 
+/** The compiler whose output `__nextjs_original-stack-frames` looks a frame up in. */
+export interface NextCompilerContext {
+  isServer: boolean;
+  isEdgeServer: boolean;
+  isAppDirectory: boolean;
+}
+
+/**
+ * Infers the compiler context of a frame from its file path or chunk URL:
+ *
+ *   /_next/static/chunks/app/page.js           → client, App Router
+ *   /_next/static/chunks/pages/index.js        → client, Pages Router
+ *   /.next/server/app/page.js                  → Node.js server, App Router
+ *   /.next/server/pages/index.js               → Node.js server, Pages Router
+ *   /.next/server/edge/chunks/ssr/…            → Edge runtime (also edge-chunks/)
+ *
+ * Turbopack's shared server chunks (`/.next/server/chunks/ssr/…`) don't say
+ * which router they belong to and default to the App Router.
+ */
+/** @internal — exported for testing */
+export function inferNextCompilerContext(file: string): NextCompilerContext {
+  const path = file.replace(/\\/g, '/');
+  if (/\/(?:_next|\.next)\/static\//.test(path)) {
+    return {
+      isServer: false,
+      isEdgeServer: false,
+      isAppDirectory: !/\/static\/chunks\/pages\//.test(path),
+    };
+  }
+  const isEdgeServer = /\/\.next\/server\/edge[/-]/.test(path);
+  return {
+    isServer: !isEdgeServer,
+    isEdgeServer,
+    isAppDirectory: !/\/\.next\/server\/(?:edge\/)?pages\//.test(path),
+  };
+}
+
 /**
  * Tracks whether the Next.js dev server's stack-frame endpoint is available.
  * `undefined` = not yet probed, `true` = available, `false` = not available.
@@ -263,8 +572,9 @@ type NextOriginalStackFramesResponse = Array<
 let _nextDevServerAvailable: boolean | undefined;
 
 /**
- * Resolves a React Server Component stack frame via the Next.js dev server's
- * built-in `POST /__nextjs_original-stack-frames` endpoint.
+ * Resolves a React Server Component or client chunk stack frame via the
+ * Next.js dev server's built-in `POST /__nextjs_original-stack-frames`
+ * endpoint, in the compiler context inferred from the file path.
  *
  * This performs source map resolution server-side with full access to the
  * bundler's compilation state, which is more reliable than client-side
@@ -273,18 +583,25 @@ let _nextDevServerAvailable: boolean | undefined;
  */
 async function resolveViaNextDevServer(
   frameInfo: StackFrameInfo,
-  debug?: boolean
+  debug?: boolean,
+  limits?: RequestLimits
 ): Promise<ResolvedSourceInfo | null> {
   if (_nextDevServerAvailable === false) {
     if (debug) console.log('Next.js dev server endpoint previously unavailable, skipping');
     return null;
   }
 
-  const filePath = extractFilePathFromRscUrl(frameInfo.url);
+  // Server frames are looked up by filesystem path, client frames by chunk URL
+  const filePath = isReactServerUrl(frameInfo.url)
+    ? extractFilePathFromRscUrl(frameInfo.url)
+    : toFetchUrl(frameInfo.url);
   if (!filePath) return null;
+  const context = inferNextCompilerContext(filePath);
+  if (debug) console.log('Next.js compiler context:', context);
 
+  const endpoint = toFetchUrl('/__nextjs_original-stack-frames');
   try {
-    const response = await fetch(`${window.location.origin}/__nextjs_original-stack-frames`, {
+    const init: RequestInit = {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -297,115 +614,160 @@ async function resolveViaNextDevServer(
             column1: frameInfo.column,
           },
         ],
-        isServer: true,
-        isEdgeServer: false,
-        isAppDirectory: true,
+        ...context,
       }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        _nextDevServerAvailable = false;
-        if (debug) console.log('Next.js __nextjs_original-stack-frames not found (404), disabling');
+    };
+    const results = await requestWithLimits(
+      endpoint,
+      init,
+      limits,
+      async (response): Promise<NextOriginalStackFramesResponse> => {
+        if (!response.ok) {
+          if (response.status === 404) {
+            _nextDevServerAvailable = false;
+            if (debug)
+              console.log('Next.js __nextjs_original-stack-frames not found (404), disabling');
+          }
+          throw new ResolveError(
+            'nextjs-rejected',
+            `__nextjs_original-stack-frames returned ${response.status}`,
+            { url: endpoint, status: response.status }
+          );
+        }
+        _nextDevServerAvailable = true;
+        return response.json();
       }
-      return null;
-    }
-
-    _nextDevServerAvailable = true;
-
-    const results: NextOriginalStackFramesResponse = await response.json();
+    );
     if (!results.length) return null;
 
     const first = results[0];
     if (first.status !== 'fulfilled' || !first.value.originalStackFrame) {
-      if (debug)
-        console.log(
-          'Next.js stack frame resolution rejected:',
-          first.status === 'rejected' ? first.reason : 'no original frame'
-        );
-      return null;
+      const reason = first.status === 'rejected' ? first.reason : 'no original frame';
+      if (debug) console.log('Next.js stack frame resolution rejected:', reason);
+      throw new ResolveError('nextjs-rejected', `Next.js could not resolve the frame: ${reason}`, {
+        url: endpoint,
+      });
     }
 
     const { originalStackFrame } = first.value;
-    let sourcePath = originalStackFrame.file || frameInfo.url;
+    // Next.js returns project-relative paths (e.g. "src/app/page.tsx")
+    const sourcePath = toAbsoluteSourcePath(originalStackFrame.file || frameInfo.url, debug);
 
-    // Next.js returns project-relative paths (e.g. "src/app/page.tsx").
-    // Convert to absolute using the configured source root so the editor
-    // can open the file directly.
-    if (
-      sourcePath &&
-      !sourcePath.startsWith('/') &&
-      !sourcePath.startsWith('file://') &&
-      !sourcePath.includes('://')
-    ) {
-      const fsRoot = getSourceRoot();
-      if (debug) {
-        console.log('Source path is relative, resolving with sourceRoot:', {
-          sourcePath,
-          fsRoot,
-        });
-      }
-      if (fsRoot) {
-        sourcePath = `${fsRoot}/${sourcePath}`;
-      }
-    }
-
-    if (debug) console.log('Final resolved source path:', sourcePath);
-
-    return {
+    const result: ResolvedSourceInfo = {
       source: sourcePath,
       line: originalStackFrame.line1 ?? frameInfo.line,
       column: originalStackFrame.column1 ?? frameInfo.column,
       name: originalStackFrame.methodName || undefined,
     };
+    if (originalStackFrame.ignored) result.ignoreListed = true;
+    if (first.value.originalCodeFrame) result.codeFrame = stripAnsi(first.value.originalCodeFrame);
+    return result;
   } catch (error) {
+    if (isAbortError(error) || error instanceof ResolveError) throw error;
+    if (error instanceof Error && error.name === 'TimeoutError') throw error;
     if (debug) console.warn('Next.js dev server resolution failed:', error);
-    return null;
+    throw new ResolveError(
+      'nextjs-rejected',
+      `Next.js dev server resolution failed: ${error instanceof Error ? error.message : error}`,
+      { url: endpoint }
+    );
   }
 }
 
+/**
+ * Converts a project-relative path returned by a dev server endpoint (e.g.
+ * "src/app/page.tsx") to an absolute one using the source root, so the
+ * editor can open the file directly.
+ */
+function toAbsoluteSourcePath(sourcePath: string, debug?: boolean): string {
+  if (sourcePath.startsWith('file://')) return fileUrlToPath(sourcePath);
+
+  let absolutePath = sourcePath;
+  if (
+    absolutePath &&
+    !absolutePath.startsWith('/') &&
+    !absolutePath.includes('://') &&
+    !isWindowsAbsolutePath(absolutePath)
+  ) {
+    const fsRoot = getSourceRoot();
+    if (debug) {
+      console.log('Source path is relative, resolving with sourceRoot:', {
+        sourcePath,
+        fsRoot,
+      });
+    }
+    if (fsRoot) {
+      absolutePath = `${fsRoot}/${absolutePath}`;
+    }
+  }
+
+  if (debug) console.log('Final resolved source path:', absolutePath);
+  return absolutePath;
+}
+
 /**
  * Fetches a raw source map from the Next.js dev server's
  * `GET /__nextjs_source-map?filename=…` endpoint.
  *
- * Returns the source map JSON string, or `null` if unavailable.
+ * Returns the source map JSON string; throws a `ResolveError` when unavailable.
  */
 async function fetchSourceMapFromNextDevServer(
   filePath: string,
-  debug?: boolean
-): Promise<string | null> {
+  debug?: boolean,
+  limits?: RequestLimits
+): Promise<string> {
+  const url = toFetchUrl(`/__nextjs_source-map?filename=${encodeURIComponent(filePath)}`);
   try {
-    const url = `${window.location.origin}/__nextjs_source-map?filename=${encodeURIComponent(filePath)}`;
     if (debug) console.log('Fetching source map from Next.js dev server:', url);
 
-    const response = await fetch(url);
-    if (!response.ok) {
-      if (debug) console.log('__nextjs_source-map returned:', response.status);
-      return null;
-    }
-
-    return await response.text();
+    return await requestWithLimits(url, undefined, limits, async (response) => {
+      if (!response.ok) {
+        if (debug) console.log('__nextjs_source-map returned:', response.status);
+        throw new ResolveError(
+          'source-map-fetch-failed',
+          `__nextjs_source-map returned ${response.status}`,
+          { url, status: response.status }
+        );
+      }
+      return response.text();
+    });
   } catch (error) {
+    if (isAbortError(error) || error instanceof ResolveError) throw error;
     if (debug) console.warn('Failed to fetch source map from Next.js dev server:', error);
-    return null;
+    throw new ResolveError(
+      'source-map-fetch-failed',
+      `Failed to fetch source map from Next.js dev server: ${error instanceof Error ? error.message : error}`,
+      { url }
+    );
   }
 }
 
 /**
- * Returns `true` when the URL uses a scheme that we cannot fetch
- * (e.g. `chrome-extension://`, `blob:`, `data:`, `rsc://`, `about://`, etc.).
- *
- * Allows: `http(s)://` and relative URLs (no scheme).
- *
- * Note: React Server Component URLs (`rsc://`, `about://React/Server/…`) are
- * handled by the Next.js dev server fast path in {@link resolveLocation} and
- * are intentionally *not* fetchable through this path.
+ * Loads a chunk or source map with the configured `SourceLoader`, reporting
+ * its errors as `fetch-failed` / `source-map-fetch-failed`.
  */
-function hasNonFetchableScheme(url: string): boolean {
-  // Relative URLs and http(s) are fine
-  if (url.startsWith('/') || url.startsWith('http://') || url.startsWith('https://')) return false;
-  // Anything else with a "scheme://" prefix is non-fetchable
-  return /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(url);
+async function loadSource(
+  url: string,
+  kind: SourceKind,
+  limits?: RequestLimits
+): Promise<LoadedSource> {
+  try {
+    return await getSourceLoader().load(url, kind, limits);
+  } catch (error) {
+    if (
+      error instanceof ResolveError ||
+      isAbortError(error) ||
+      (error instanceof Error && error.name === 'TimeoutError')
+    ) {
+      throw error;
+    }
+    const label = kind === 'chunk' ? 'source file' : 'source map';
+    throw new ResolveError(
+      kind === 'chunk' ? 'fetch-failed' : 'source-map-fetch-failed',
+      `Failed to load ${label}: ${error instanceof Error ? error.message : error}`,
+      { url }
+    );
+  }
 }
 
 /**
@@ -413,25 +775,15 @@ function hasNonFetchableScheme(url: string): boolean {
  *
  * Accepts absolute `http(s)://` URLs and root-relative paths (resolved against
  * `window.location.origin`).  Non-HTTP schemes (including RSC debug URLs) are
- * rejected — RSC resolution is handled by the Next.js fast path in
- * {@link resolveLocation}.
+ * rejected — RSC resolution is handled by the "nextjs" and "rsc-endpoint"
+ * resolver strategies.
  */
 export async function fetchSourceFile(
-  url: string
-): Promise<{ content: string; effectiveUrl: string }> {
-  if (hasNonFetchableScheme(url)) {
-    throw new Error(`Non-fetchable URL scheme: ${url}`);
-  }
-
-  const fetchUrl = url.startsWith('http') ? url : `${window.location.origin}${url}`;
-
-  const response = await fetch(fetchUrl);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch source file: ${response.status} ${response.statusText}`);
-  }
-
-  const content = await response.text();
-  return { content, effectiveUrl: fetchUrl };
+  url: string,
+  limits?: RequestLimits
+): Promise<{ content: string; effectiveUrl: string; etag?: string }> {
+  const { content, url: effectiveUrl, etag } = await fetchSourceLoader.load(url, 'chunk', limits);
+  return { content, effectiveUrl, etag };
 }
 
 /**
@@ -466,12 +818,118 @@ function extractSourceMapUrl(sourceContent: string): string | null {
   return null;
 }
 
+/**
+ * Asks the configured locator for the source map URL of a chunk, resolved
+ * against the chunk URL.  Locator errors are reported as
+ * `source-map-fetch-failed`.
+ */
+async function locateSourceMap(
+  locator: Required<SourceMapLocatorConfig>,
+  sourceUrl: string
+): Promise<string | null> {
+  let located: string | null;
+  try {
+    located = await locator.locate(sourceUrl);
+  } catch (error) {
+    if (error instanceof ResolveError) throw error;
+    throw new ResolveError(
+      'source-map-fetch-failed',
+      `Source map locator failed: ${error instanceof Error ? error.message : error}`,
+      { url: sourceUrl }
+    );
+  }
+  return located ? new URL(located, sourceUrl).href : null;
+}
+
 /** Resolves source map content — inline (data URL) or external (fetched). */
 export async function resolveSourceMap(
   sourceContent: string,
-  sourceUrl: string
+  sourceUrl: string,
+  limits?: RequestLimits
+): Promise<string | null> {
+  try {
+    return await loadSourceMapText(sourceContent, sourceUrl, limits);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Failed to fetch source map for ${sourceUrl}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Looks up the source map of a chunk by its debug ID.  Lookup errors are
+ * reported as `source-map-fetch-failed`.
+ */
+async function lookupSourceMapByDebugId(
+  lookup: DebugIdLookup,
+  debugId: string,
+  sourceUrl: string,
+  limits?: RequestLimits
 ): Promise<string | null> {
-  const sourceMapUrl = extractSourceMapUrl(sourceContent);
+  let found: DebugIdLookupResult | null;
+  try {
+    found = await lookup(debugId, sourceUrl);
+  } catch (error) {
+    if (error instanceof ResolveError) throw error;
+    throw new ResolveError(
+      'source-map-fetch-failed',
+      `Debug ID lookup failed: ${error instanceof Error ? error.message : error}`,
+      { url: sourceUrl }
+    );
+  }
+  if (!found) return null;
+  if ('sourceMap' in found) return found.sourceMap;
+  const { content } = await loadSource(new URL(found.url, sourceUrl).href, 'source-map', limits);
+  return content;
+}
+
+/**
+ * Like `resolveSourceMap`, but throws a `ResolveError` when an external map
+ * can't be fetched or belongs to another build than the chunk (see
+ * `debug-id.ts`).  Returns `null` only when the chunk has no source map.
+ * The configured debug ID lookup and source map locator are consulted unless
+ * `locate` is `false`.
+ */
+async function loadSourceMapText(
+  sourceContent: string,
+  sourceUrl: string,
+  limits?: RequestLimits,
+  locate = true
+): Promise<string | null> {
+  const debugId = extractDebugId(sourceContent);
+  const lookup = locate ? getDebugIdLookup() : undefined;
+  let sourceMapContent =
+    debugId && lookup ? await lookupSourceMapByDebugId(lookup, debugId, sourceUrl, limits) : null;
+  if (sourceMapContent === null) {
+    sourceMapContent = await findSourceMapText(sourceContent, sourceUrl, limits, locate);
+  }
+  if (sourceMapContent !== null && isDebugIdMismatch(debugId, sourceMapContent)) {
+    throw new ResolveError(
+      'debug-id-mismatch',
+      `Source map debug ID ${getSourceMapDebugId(sourceMapContent)} doesn't match ${debugId} of ${sourceUrl}`,
+      { url: sourceUrl }
+    );
+  }
+  return sourceMapContent;
+}
+
+/**
+ * Finds the source map named by a chunk's `sourceMappingURL` or the
+ * configured source map locator.
+ */
+async function findSourceMapText(
+  sourceContent: string,
+  sourceUrl: string,
+  limits: RequestLimits | undefined,
+  locate: boolean
+): Promise<string | null> {
+  const locator = locate ? getSourceMapLocator() : undefined;
+  let sourceMapUrl =
+    locator?.mode === 'override' ? await locateSourceMap(locator, sourceUrl) : null;
+  if (!sourceMapUrl) sourceMapUrl = extractSourceMapUrl(sourceContent);
+  if (!sourceMapUrl && locator?.mode === 'fallback') {
+    sourceMapUrl = await locateSourceMap(locator, sourceUrl);
+  }
   if (!sourceMapUrl) {
     return null;
   }
@@ -494,29 +952,230 @@ export async function resolveSourceMap(
     return null;
   }
 
-  // External source map — resolve to absolute URL
-  let absoluteSourceMapUrl: string;
-  if (sourceMapUrl.startsWith('http')) {
-    absoluteSourceMapUrl = sourceMapUrl;
-  } else if (sourceMapUrl.startsWith('/')) {
-    const baseUrl = new URL(sourceUrl);
-    absoluteSourceMapUrl = `${baseUrl.protocol}//${baseUrl.host}${sourceMapUrl}`;
-  } else {
-    const baseUrl = new URL(sourceUrl);
-    const basePath = baseUrl.pathname.substring(0, baseUrl.pathname.lastIndexOf('/') + 1);
-    absoluteSourceMapUrl = `${baseUrl.protocol}//${baseUrl.host}${basePath}${sourceMapUrl}`;
+  // External source map — resolved against the chunk's (http or file) URL
+  const absoluteSourceMapUrl = new URL(sourceMapUrl, sourceUrl).href;
+  const { content } = await loadSource(absoluteSourceMapUrl, 'source-map', limits);
+  return content;
+}
+
+/**
+ * Collects the ignore-listed source indices of a (possibly sectioned) map.
+ * Index maps are flattened by concatenating each section's sources, so the
+ * indices are offset the same way to line up with `consumer.sources`.
+ */
+function collectIgnoreList(sourceMap: RawSourceMap, offset: number, into: number[]): number {
+  if (Array.isArray(sourceMap.sections)) {
+    let count = 0;
+    for (const section of sourceMap.sections) {
+      if (isRawSourceMap(section) && isRawSourceMap(section.map)) {
+        count += collectIgnoreList(section.map, offset + count, into);
+      }
+    }
+    return count;
   }
+  const ignoreList = Array.isArray(sourceMap.ignoreList)
+    ? sourceMap.ignoreList
+    : Array.isArray(sourceMap.x_google_ignoreList)
+      ? sourceMap.x_google_ignoreList
+      : [];
+  for (const index of ignoreList) into.push(index + offset);
+  return Array.isArray(sourceMap.sources) ? sourceMap.sources.length : 0;
+}
+
+function parseSourceMap(sourceMapContent: string): ParsedSourceMap {
+  const sourceMap: unknown = JSON.parse(sourceMapContent);
+  if (!isRawSourceMap(sourceMap)) throw new Error('Source map is not a JSON object');
+  // The consumer checks the mappings itself
+  const consumer = new SourceMapConsumer(sourceMap as SectionedSourceMapInput);
+  const ignoreList: number[] = [];
+  collectIgnoreList(sourceMap, 0, ignoreList);
+  return {
+    consumer,
+    sourceRoot: typeof sourceMap.sourceRoot === 'string' ? sourceMap.sourceRoot : undefined,
+    ignoredSources: new Set(ignoreList.map((index) => consumer.sources[index])),
+  };
+}
 
+/** Returns the parsed source map for a cache entry, parsing it on first use. */
+function getParsedSourceMap(data: CachedSourceMapData): ParsedSourceMap {
+  if (!data.parsed) {
+    data.parsed = parseSourceMap(data.sourceMapContent);
+  }
+  return data.parsed;
+}
+
+function lookupOriginalPosition(
+  parsed: ParsedSourceMap,
+  frameInfo: StackFrameInfo
+): { info: OriginalSourceInfo; sourceRoot?: string } | null {
+  const originalPosition = parsed.consumer.originalPositionFor({
+    line: frameInfo.line,
+    column: frameInfo.column,
+  });
+
+  if (
+    originalPosition.source &&
+    originalPosition.line !== null &&
+    originalPosition.column !== null
+  ) {
+    const info: OriginalSourceInfo = {
+      source: originalPosition.source,
+      line: originalPosition.line,
+      column: originalPosition.column,
+      name: originalPosition.name || undefined,
+    };
+    if (parsed.ignoredSources.has(originalPosition.source)) info.ignoreListed = true;
+    return { info, sourceRoot: parsed.sourceRoot };
+  }
+
+  return null;
+}
+
+/** The embedded content of `rawSource` in a loaded map, for results from the persistent cache. */
+function sourceContentFromMap(data: CachedSourceMapData, rawSource: string): string | undefined {
   try {
-    const response = await fetch(absoluteSourceMapUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch source map: ${response.status} ${response.statusText}`);
+    return getParsedSourceMap(data).consumer.sourceContentFor(rawSource, true) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function lookupParsedSourceMap(
+  parsed: ParsedSourceMap,
+  frameInfo: StackFrameInfo
+): SourceMapWorkerResult | null {
+  const mapResult = lookupOriginalPosition(parsed, frameInfo);
+  if (!mapResult) return null;
+  // Use the raw (pre-resolved) path for content lookup — that's what the source map indexes by
+  const sourceContent = parsed.consumer.sourceContentFor(mapResult.info.source, true);
+  return { ...mapResult, sourceContent: sourceContent || undefined };
+}
+
+/**
+ * Looks a position up on the main thread, as `lookupInSourceMap` does when no
+ * source map worker runs.
+ */
+/** @internal — exported for testing */
+export function lookupOnMainThread(
+  sourceMapContent: string,
+  line: number,
+  column: number
+): SourceMapWorkerResult | null {
+  return lookupParsedSourceMap(parseSourceMap(sourceMapContent), { url: '', line, column });
+}
+
+async function fetchChunk(
+  url: string,
+  persistent: boolean,
+  timeout: number | undefined
+): Promise<FetchedChunk> {
+  const generation = _cacheGeneration;
+  const { content, url: effectiveUrl, etag } = await loadSource(url, 'chunk', { timeout });
+  return {
+    content,
+    effectiveUrl,
+    fingerprint: persistent ? computeFingerprint(content, etag) : undefined,
+    generation,
+  };
+}
+
+/**
+ * Resolves the source map of a fetched chunk (from the persistent cache when
+ * possible) and stores it in the L2 cache.  Returns `null` when the chunk has
+ * no source map.
+ */
+async function loadSourceMapData(
+  url: string,
+  chunk: FetchedChunk,
+  debug: boolean | undefined,
+  timeout: number | undefined
+): Promise<CachedSourceMapData | null> {
+  const { content, effectiveUrl, fingerprint } = chunk;
+
+  let sourceMapContent = fingerprint
+    ? await getPersistedSourceMap(effectiveUrl, fingerprint)
+    : null;
+  if (sourceMapContent) {
+    if (debug) console.log('Persistent cache hit (source map):', fingerprint);
+  } else {
+    sourceMapContent = await loadSourceMapText(content, effectiveUrl, { timeout });
+    if (sourceMapContent && fingerprint) {
+      void putPersistedSourceMap(effectiveUrl, fingerprint, sourceMapContent);
+    }
+  }
+  if (!sourceMapContent) return null;
+
+  if (debug) console.log('Source map resolved (length:', sourceMapContent.length, ')');
+
+  const data: CachedSourceMapData = {
+    sourceContent: content,
+    sourceMapContent,
+    effectiveUrl,
+    fingerprint,
+  };
+  // A chunk fetched before `clearCaches()` may predate a hot update
+  if (chunk.generation !== _cacheGeneration) return data;
+  sizeBoundedSet(sourceMapCache, url, data, getMaxMapBytes());
+  if (url !== effectiveUrl) {
+    sizeBoundedSet(sourceMapCache, effectiveUrl, data, getMaxMapBytes());
+  }
+  return data;
+}
+
+/** Turns a worker response without a result into the matching `ResolveError`. */
+function toWorkerError(response: SourceMapWorkerResponse, url: string): ResolveError {
+  return new ResolveError(
+    response.reason ?? 'unresolved',
+    response.error ?? 'Source map worker returned no result',
+    { url: response.url ?? url, status: response.status }
+  );
+}
+
+/**
+ * Looks up a generated position in a loaded source map.  The map is parsed in
+ * the source map worker when one is running (so large maps never block the
+ * main thread), otherwise on the main thread and kept on the cache entry.
+ */
+async function lookupInSourceMap(
+  data: CachedSourceMapData,
+  url: string,
+  frameInfo: StackFrameInfo,
+  debug?: boolean
+): Promise<SourceMapWorkerResult | null> {
+  if (isSourceMapWorkerAvailable()) {
+    let response: SourceMapWorkerResponse | undefined;
+    try {
+      response = await resolveInSourceMapWorker(url, frameInfo.line, frameInfo.column, {
+        fingerprint: data.fingerprint,
+        content: data.sentToWorker ? undefined : data.sourceMapContent,
+      });
+      data.sentToWorker = true;
+      if (response.missingSourceMap) {
+        // The worker evicted the map since we last sent it
+        response = await resolveInSourceMapWorker(url, frameInfo.line, frameInfo.column, {
+          fingerprint: data.fingerprint,
+          content: data.sourceMapContent,
+        });
+      }
+    } catch (error) {
+      if (debug) console.warn('Source map worker failed, parsing on main thread:', error);
     }
-    return await response.text();
+    if (response) {
+      if (!response.result && debug) console.warn('Source map worker lookup:', response.error);
+      if (!response.result) throw toWorkerError(response, url);
+      return response.result;
+    }
+  }
+
+  let parsed: ParsedSourceMap;
+  try {
+    parsed = getParsedSourceMap(data);
   } catch (error) {
-    console.warn(`Failed to fetch source map from ${absoluteSourceMapUrl}:`, error);
-    return null;
+    throw new ResolveError('invalid-source-map', `Invalid source map for ${url}: ${error}`, {
+      url,
+    });
   }
+  return lookupParsedSourceMap(parsed, frameInfo);
 }
 
 /**
@@ -528,32 +1187,7 @@ export async function mapToOriginalSource(
   sourceMapContent: string
 ): Promise<{ info: OriginalSourceInfo; sourceRoot?: string } | null> {
   try {
-    const sourceMap = JSON.parse(sourceMapContent);
-
-    const consumer = new SourceMapConsumer(sourceMap);
-
-    const originalPosition = consumer.originalPositionFor({
-      line: frameInfo.line,
-      column: frameInfo.column,
-    });
-
-    if (
-      originalPosition.source &&
-      originalPosition.line !== null &&
-      originalPosition.column !== null
-    ) {
-      return {
-        info: {
-          source: originalPosition.source,
-          line: originalPosition.line,
-          column: originalPosition.column,
-          name: originalPosition.name || undefined,
-        },
-        sourceRoot: sourceMap.sourceRoot,
-      };
-    }
-
-    return null;
+    return lookupOriginalPosition(parseSourceMap(sourceMapContent), frameInfo);
   } catch (error) {
     console.error('Error parsing source map:', error);
     return null;
@@ -566,12 +1200,7 @@ export async function getOriginalSourceContent(
   sourceMapContent: string
 ): Promise<string | null> {
   try {
-    const sourceMap = JSON.parse(sourceMapContent);
-    const consumer = new SourceMapConsumer(sourceMap);
-
-    const sourceContent = consumer.sourceContentFor(originalInfo.source);
-
-    return sourceContent;
+    return parseSourceMap(sourceMapContent).consumer.sourceContentFor(originalInfo.source, true);
   } catch (error) {
     console.error('Error getting source content:', error);
     return null;
@@ -579,211 +1208,852 @@ export async function getOriginalSourceContent(
 }
 
 /**
- * Resolves a stack trace line to original source location using source maps.
- * Two-level cache: L1 caches the final resolved result, L2 caches the parsed
- * source map so multiple positions in the same file are fast.
- *
- * When `debug` is `true`, detailed logs are printed to the console showing
- * each step of the resolution pipeline.
+ * Resolves a frame against a source map fetched for it from a dev server
+ * endpoint.  Returns `null` when the position is not mapped.
  */
-export async function resolveLocation(
-  stackLine: string,
-  debug?: boolean
+async function resolveWithSourceMap(
+  frameInfo: StackFrameInfo,
+  sourceMapContent: string
 ): Promise<ResolvedSourceInfo | null> {
+  const mapResult = await mapToOriginalSource(frameInfo, sourceMapContent);
+  if (!mapResult) return null;
+  const originalSourceContent = await getOriginalSourceContent(mapResult.info, sourceMapContent);
+  return {
+    ...mapResult.info,
+    source: resolveSourcePath(mapResult.info.source, mapResult.sourceRoot, frameInfo.url),
+    sourceContent: originalSourceContent || undefined,
+  };
+}
+
+// ─── Built-in resolver strategies ───────────────────────────────────────────
+
+/**
+ * Next.js RSC strategy.  For React Server Component URLs in Next.js, delegate
+ * resolution to the built-in dev server endpoints which resolve source maps
+ * server-side with full access to the bundler's compilation state.  This
+ * removes the need for a custom /api/dev/source-file/ handler.
+ */
+async function resolveViaNextjs(
+  frameInfo: StackFrameInfo,
+  debug?: boolean,
+  limits?: RequestLimits
+): Promise<ResolvedSourceInfo | null> {
+  const { url } = frameInfo;
+
+  // The first step's failure explains the most — report it if both fail
+  let failure: unknown;
+
+  // Step 1: POST /__nextjs_original-stack-frames (full server-side resolution)
   try {
-    if (debug) console.group('[show-component] resolveLocation');
-    if (debug) console.log('Stack line:', stackLine);
+    const nextResult = await resolveViaNextDevServer(frameInfo, debug, limits);
+    if (nextResult) {
+      if (debug) console.log('Resolved via Next.js __nextjs_original-stack-frames:', nextResult);
+      return nextResult;
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    failure = error;
+  }
 
-    const frameInfo = extractStackFrameInfo(stackLine);
-    if (!frameInfo) {
-      if (debug) {
-        console.warn('Could not extract frame info from stack line');
-        console.groupEnd();
+  // Step 2: GET /__nextjs_source-map (fetch source map, resolve client-side)
+  const filePath = extractFilePathFromRscUrl(url);
+  if (filePath) {
+    let sourceMapContent: string | null = null;
+    try {
+      sourceMapContent = await fetchSourceMapFromNextDevServer(filePath, debug, limits);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      failure = failure ?? error;
+    }
+    if (sourceMapContent) {
+      if (debug) console.log('Got source map via __nextjs_source-map, resolving client-side');
+
+      const result = await resolveWithSourceMap(frameInfo, sourceMapContent);
+      if (!result) {
+        failure =
+          failure ??
+          new ResolveError('unmapped-position', 'The source map has no mapping for the position', {
+            url,
+          });
+      } else {
+        if (debug) console.log('Resolved via Next.js __nextjs_source-map:', result);
+        return result;
       }
-      return null;
     }
+  }
 
-    if (debug) console.log('Extracted frame:', frameInfo);
+  if (debug) console.warn('All Next.js resolution methods failed for RSC URL:', url);
+  if (failure) throw failure;
+  return null;
+}
 
-    const { url, line, column } = frameInfo;
-    const cacheKey = `${url}:${line}:${column}`;
+/**
+ * Generic RSC strategy.  Sends React Server Component frames to the endpoint
+ * set with `configureRscEndpoint` (see `rsc-endpoint.ts`), which returns
+ * either the original location or the source map of the server file.
+ */
+async function resolveViaRscEndpoint(
+  frameInfo: StackFrameInfo,
+  debug?: boolean,
+  limits?: RequestLimits
+): Promise<ResolvedSourceInfo | null> {
+  const endpoint = getRscEndpoint();
+  if (!endpoint) return null;
 
-    // L1: exact result cache
-    const cachedResult = resultCache.get(cacheKey);
-    if (cachedResult) {
-      if (debug) {
-        console.log('L1 cache hit:', cachedResult.originalSource);
-        console.groupEnd();
-      }
-      return cachedResult.originalSource;
-    }
-    if (debug) console.log('L1 cache miss');
-
-    // ── Next.js RSC fast path ──────────────────────────────────────────────
-    // For React Server Component URLs in Next.js, delegate resolution to the
-    // built-in dev server endpoints which resolve source maps server-side
-    // with full access to the bundler's compilation state.  This removes the
-    // need for a custom /api/dev/source-file/ handler.
-    if (isNextjsRscUrl(url)) {
-      if (debug) console.log('Next.js RSC URL detected, trying built-in dev server endpoints');
-
-      // Strategy 1: POST /__nextjs_original-stack-frames (full server-side resolution)
-      const nextResult = await resolveViaNextDevServer(frameInfo, debug);
-      if (nextResult) {
-        boundedSet(resultCache, cacheKey, { originalSource: nextResult }, MAX_RESULT_CACHE_SIZE);
-        if (debug) {
-          console.log('Resolved via Next.js __nextjs_original-stack-frames:', nextResult);
-          console.groupEnd();
-        }
-        return nextResult;
+  const { url, line, column, functionName } = frameInfo;
+  const filePath = extractFilePathFromRscUrl(url);
+  if (!filePath) {
+    throw new ResolveError('unsupported-url', `No file:// path in RSC URL ${url}`, { url });
+  }
+
+  const frame: RscFrame = { url, file: normalizeFsPath(filePath), line, column, functionName };
+  const request = endpoint.request(frame, toFetchUrl(endpoint.url));
+  if (debug) console.log('Resolving via RSC endpoint:', request.url, frame);
+
+  let result: RscEndpointResult | null;
+  try {
+    result = await requestWithLimits(request.url, request.init, limits, async (response) => {
+      if (!response.ok) {
+        throw new ResolveError(
+          'rsc-endpoint-rejected',
+          `RSC endpoint returned ${response.status}`,
+          { url: request.url, status: response.status }
+        );
       }
+      return endpoint.parseResponse(response, frame);
+    });
+  } catch (error) {
+    if (isAbortError(error) || error instanceof ResolveError) throw error;
+    if (error instanceof Error && error.name === 'TimeoutError') throw error;
+    if (debug) console.warn('RSC endpoint request failed:', error);
+    throw new ResolveError(
+      'rsc-endpoint-rejected',
+      `RSC endpoint request failed: ${error instanceof Error ? error.message : error}`,
+      { url: request.url }
+    );
+  }
+  if (!result) return null;
+
+  if ('sourceMap' in result) {
+    if (debug) console.log('Got source map from RSC endpoint, resolving client-side');
+    const resolved = await resolveWithSourceMap(frameInfo, result.sourceMap);
+    if (!resolved) {
+      throw new ResolveError(
+        'unmapped-position',
+        `Position ${line}:${column} is not mapped in the source map of ${frame.file}`,
+        { url: request.url }
+      );
+    }
+    if (debug) console.log('Resolved via RSC endpoint source map:', resolved);
+    return resolved;
+  }
 
-      // Strategy 2: GET /__nextjs_source-map (fetch source map, resolve client-side)
-      const filePath = extractFilePathFromRscUrl(url);
-      if (filePath) {
-        const sourceMapContent = await fetchSourceMapFromNextDevServer(filePath, debug);
-        if (sourceMapContent) {
-          if (debug) console.log('Got source map via __nextjs_source-map, resolving client-side');
-
-          const mapResult = await mapToOriginalSource(frameInfo, sourceMapContent);
-          if (mapResult) {
-            const resolvedSource = resolveSourcePath(
-              mapResult.info.source,
-              mapResult.sourceRoot,
-              url
-            );
-            const originalSourceContent = await getOriginalSourceContent(
-              mapResult.info,
-              sourceMapContent
-            );
-            const result: ResolvedSourceInfo = {
-              ...mapResult.info,
-              source: resolvedSource,
-              sourceContent: originalSourceContent || undefined,
-            };
-            boundedSet(resultCache, cacheKey, { originalSource: result }, MAX_RESULT_CACHE_SIZE);
-            if (debug) {
-              console.log('Resolved via Next.js __nextjs_source-map:', result);
-              console.groupEnd();
-            }
-            return result;
-          }
-        }
+  if (debug) console.log('Resolved via RSC endpoint:', result);
+  return { ...result, source: toAbsoluteSourcePath(result.source, debug) };
+}
+
+/**
+ * Source map strategy (Vite, webpack, non-RSC HTTP URLs): fetch the chunk and
+ * its source map and look the position up locally.
+ *
+ * Fetching, parsing and position lookup run in a dedicated worker (which
+ * keeps its own source map cache) when one can be started; otherwise the same
+ * pipeline runs on the main thread against the L2 cache.
+ *
+ * Chunk and map loads are shared between callers, so they only honour the
+ * timeout — the caller's signal is handled by `resolveLocation`.
+ */
+async function resolveViaSourceMap(
+  frameInfo: StackFrameInfo,
+  debug?: boolean,
+  timeout?: number
+): Promise<ResolvedSourceInfo | null> {
+  const { url, line, column } = frameInfo;
+
+  // The worker fetches chunks itself unless the persistent cache needs the
+  // chunk fingerprint and map text on the main thread, or a custom
+  // `SourceLoader`, source map locator, debug ID lookup or request options
+  // set with `configureResolver()` have to apply.
+  const persistent = isPersistentCacheEnabled();
+  // L2: source map cache (keyed by URL)
+  let sourceMapData = sourceMapCache.map.get(url);
+  const workerCanLoad =
+    getSourceLoader() === fetchSourceLoader &&
+    !getSourceMapLocator() &&
+    !getDebugIdLookup() &&
+    usesDefaultRequests() &&
+    isSourceMapWorkerAvailable();
+  if (!persistent && !sourceMapData && workerCanLoad) {
+    const fetchUrl = toFetchUrl(url);
+    let response: SourceMapWorkerResponse | undefined;
+    try {
+      if (debug) console.log('Resolving in source map worker:', fetchUrl);
+      response = await resolveInSourceMapWorker(fetchUrl, line, column, undefined, timeout);
+    } catch (error) {
+      if (debug) console.warn('Source map worker failed, falling back to main thread:', error);
+    }
+    if (response) {
+      // The worker looked the map up in its own cache
+      countLookup(sourceMapCounters, !!response.cached);
+      if (!response.result) {
+        if (debug) console.warn('Source map worker returned no result:', response.error);
+        throw toWorkerError(response, fetchUrl);
       }
 
+      const { info, sourceRoot, sourceContent } = response.result;
+      const resolvedSource = resolveSourcePath(info.source, sourceRoot, fetchUrl);
+      const result: ResolvedSourceInfo = { ...info, source: resolvedSource, sourceContent };
+      if (isVitePrebundledDep(url)) result.ignoreListed = true;
+
       if (debug) {
-        console.warn('All Next.js resolution methods failed for RSC URL:', url);
-        console.groupEnd();
+        console.log('Resolved in worker:', {
+          rawSource: info.source,
+          sourceRoot,
+          resolvedSource,
+          line: result.line,
+          column: result.column,
+          name: result.name,
+        });
       }
-      return null;
+      return result;
     }
+  }
 
-    // ── Standard path (Vite, webpack, non-RSC HTTP URLs) ─────────────────
-
-    // L2: source map cache (keyed by URL)
-    let sourceMapData = sourceMapCache.get(url);
-    let effectiveUrl = url;
+  countLookup(sourceMapCounters, !!sourceMapData);
+  let effectiveUrl = url;
 
-    if (!sourceMapData) {
-      if (debug) console.log('L2 cache miss — fetching source file:', url);
+  if (sourceMapData) {
+    if (debug) console.log('L2 cache hit for:', url);
+  } else if (inFlightSourceMaps.has(url)) {
+    if (debug) console.log('L2 cache miss — joining in-flight load for:', url);
+    sourceMapData = (await inFlightSourceMaps.get(url)) ?? undefined;
+  } else {
+    if (debug) console.log('L2 cache miss — fetching source file:', url);
 
-      const sourceResult = await fetchSourceFile(url);
-      effectiveUrl = sourceResult.effectiveUrl;
+    const chunk = await shareInFlight(inFlightChunks, url, () =>
+      fetchChunk(url, persistent, timeout)
+    );
+    effectiveUrl = chunk.effectiveUrl;
 
-      if (debug) console.log('Fetched source, effective URL:', effectiveUrl);
+    if (debug) console.log('Fetched source, effective URL:', effectiveUrl);
 
-      const sourceMapContent = await resolveSourceMap(
-        sourceResult.content,
-        sourceResult.effectiveUrl
-      );
-      if (!sourceMapContent) {
-        if (debug) {
-          console.warn('No source map found for:', effectiveUrl);
-          console.groupEnd();
-        }
-        return null;
-      }
+    const persisted = chunk.fingerprint
+      ? await getPersistedResult(effectiveUrl, line, column, chunk.fingerprint)
+      : null;
 
-      if (debug) console.log('Source map resolved (length:', sourceMapContent.length, ')');
+    sourceMapData =
+      (await shareInFlight(inFlightSourceMaps, url, () =>
+        loadSourceMapData(url, chunk, debug, timeout)
+      )) ?? undefined;
 
-      sourceMapData = {
-        sourceContent: sourceResult.content,
-        sourceMapContent,
+    if (persisted && sourceMapData) {
+      if (debug) console.log('Persistent cache hit (result):', persisted.result);
+      // Results are persisted without the original file, which the map holds
+      return {
+        ...persisted.result,
+        sourceContent: sourceContentFromMap(sourceMapData, persisted.rawSource),
       };
-      boundedSet(sourceMapCache, url, sourceMapData, MAX_SOURCE_MAP_CACHE_SIZE);
-      if (url !== effectiveUrl) {
-        boundedSet(sourceMapCache, effectiveUrl, sourceMapData, MAX_SOURCE_MAP_CACHE_SIZE);
-      }
-    } else {
-      if (debug) console.log('L2 cache hit for:', url);
     }
+  }
 
-    const mapResult = await mapToOriginalSource(frameInfo, sourceMapData.sourceMapContent);
-    if (!mapResult) {
-      if (debug) {
-        console.warn('Source map lookup returned no result for position', { line, column });
-        console.groupEnd();
-      }
-      return null;
-    }
+  if (!sourceMapData) {
+    if (debug) console.warn('No source map found for:', effectiveUrl);
+    throw new ResolveError('no-source-map', `No source map found for ${effectiveUrl}`, {
+      url: effectiveUrl,
+    });
+  }
+  effectiveUrl = sourceMapData.effectiveUrl;
+
+  const mapResult = await lookupInSourceMap(sourceMapData, effectiveUrl, frameInfo, debug);
+  if (!mapResult) {
+    if (debug) console.warn('Source map lookup returned no result for position', { line, column });
+    throw new ResolveError(
+      'unmapped-position',
+      `Position ${line}:${column} is not mapped in the source map for ${effectiveUrl}`,
+      { url: effectiveUrl }
+    );
+  }
 
-    if (debug) console.log('Mapped to original:', mapResult.info);
+  if (debug) console.log('Mapped to original:', mapResult.info);
 
-    const rawSource = mapResult.info.source;
-    const resolvedSource = resolveSourcePath(rawSource, mapResult.sourceRoot, effectiveUrl);
+  const rawSource = mapResult.info.source;
+  const resolvedSource = resolveSourcePath(rawSource, mapResult.sourceRoot, effectiveUrl);
 
-    if (debug) {
-      console.log('Source path resolution:', {
-        rawSource,
-        sourceRoot: mapResult.sourceRoot,
-        effectiveUrl,
-        resolvedSource,
-      });
+  if (debug) {
+    console.log('Source path resolution:', {
+      rawSource,
+      sourceRoot: mapResult.sourceRoot,
+      effectiveUrl,
+      resolvedSource,
+    });
+  }
+
+  const result: ResolvedSourceInfo = {
+    ...mapResult.info,
+    source: resolvedSource,
+    sourceContent: mapResult.sourceContent,
+  };
+  // Dependencies pre-bundled by Vite are library code, whatever their map says
+  if (isVitePrebundledDep(url)) result.ignoreListed = true;
+
+  if (sourceMapData.fingerprint) {
+    void putPersistedResult(
+      effectiveUrl,
+      line,
+      column,
+      sourceMapData.fingerprint,
+      result,
+      rawSource
+    );
+  }
+
+  return result;
+}
+
+/** Reads a page script for `loadWebpackEvalModule`, caching its text. */
+async function loadWebpackScript(scriptUrl: string, timeout: number | undefined): Promise<string> {
+  const cached = webpackScriptCache.map.get(scriptUrl);
+  if (cached !== undefined) return cached;
+  const { content } = await shareInFlight(inFlightChunks, scriptUrl, () =>
+    fetchChunk(scriptUrl, false, timeout)
+  );
+  sizeBoundedSet(webpackScriptCache, scriptUrl, content, getMaxMapBytes());
+  return content;
+}
+
+/**
+ * Loads the evaluated code of a webpack eval module and its inline source
+ * map into the L2 cache — from the module's factory in webpack's chunk
+ * registry, or else from the page script that defines it.  Returns `null`
+ * when the module has no source map.
+ */
+async function loadWebpackEvalModule(
+  url: string,
+  debug: boolean | undefined,
+  timeout: number | undefined
+): Promise<CachedSourceMapData | null> {
+  const factory = findModuleInRegistry(url);
+  let code = factory && extractEvalModule(factory, url);
+  if (code) {
+    if (debug) console.log('webpack module found in the chunk registry:', url);
+  } else {
+    for (const scriptUrl of getPageScriptUrls()) {
+      if (!getSourceLoader().canLoad(scriptUrl)) continue;
+      try {
+        code = extractEvalModule(await loadWebpackScript(scriptUrl, timeout), url);
+      } catch (error) {
+        if (debug) console.warn('Could not read page script:', scriptUrl, error);
+        continue;
+      }
+      if (code) {
+        if (debug) console.log('webpack module found in page script:', scriptUrl);
+        break;
+      }
     }
+  }
+  if (!code) {
+    throw new ResolveError('fetch-failed', `webpack module not found in the page: ${url}`, {
+      url,
+    });
+  }
 
-    const originalInfo: OriginalSourceInfo = {
-      ...mapResult.info,
-      source: resolvedSource,
-    };
+  // Eval modules carry inline maps — there's no file a locator could find
+  const sourceMapContent = await loadSourceMapText(code, url, { timeout }, false);
+  if (!sourceMapContent) return null;
+  const data: CachedSourceMapData = { sourceContent: code, sourceMapContent, effectiveUrl: url };
+  sizeBoundedSet(sourceMapCache, url, data, getMaxMapBytes());
+  return data;
+}
 
-    // Use the raw (pre-resolved) path for content lookup — that's what the source map indexes by
-    const originalSourceContent = await getOriginalSourceContent(
-      { ...originalInfo, source: rawSource },
-      sourceMapData.sourceMapContent
+/**
+ * Resolves a frame in a webpack eval module (`webpack-internal:///…`)
+ * against the module's inline source map.
+ */
+async function resolveViaWebpackEval(
+  frameInfo: StackFrameInfo,
+  debug?: boolean,
+  timeout?: number
+): Promise<ResolvedSourceInfo | null> {
+  const { url, line, column } = frameInfo;
+
+  let data = sourceMapCache.map.get(url);
+  countLookup(sourceMapCounters, !!data);
+  if (!data) {
+    data =
+      (await shareInFlight(inFlightSourceMaps, url, () =>
+        loadWebpackEvalModule(url, debug, timeout)
+      )) ?? undefined;
+  }
+  if (!data) {
+    throw new ResolveError('no-source-map', `No source map found for ${url}`, { url });
+  }
+
+  const mapResult = await lookupInSourceMap(data, url, frameInfo, debug);
+  if (!mapResult) {
+    throw new ResolveError(
+      'unmapped-position',
+      `Position ${line}:${column} is not mapped in the source map for ${url}`,
+      { url }
     );
+  }
 
-    const result: ResolvedSourceInfo = {
-      ...originalInfo,
-      sourceContent: originalSourceContent || undefined,
+  // Module sources are relative to the webpack project, not to the module
+  const resolvedSource = resolveSourcePath(
+    mapResult.info.source,
+    mapResult.sourceRoot,
+    toFetchUrl('/')
+  );
+  if (debug) console.log('Resolved webpack module frame:', mapResult.info, '→', resolvedSource);
+  return { ...mapResult.info, source: resolvedSource, sourceContent: mapResult.sourceContent };
+}
+
+registerBuiltinResolverStrategy({
+  name: 'nextjs',
+  // The dev server endpoints live on the page origin — none outside the browser
+  canHandle: (frame) => isNextjsRscUrl(frame.url) && !!getPageOrigin(),
+  resolve: (frame, { debug, signal, timeout }) =>
+    resolveViaNextjs(frame, debug, { signal, timeout }),
+});
+
+registerBuiltinResolverStrategy({
+  name: 'rsc-endpoint',
+  canHandle: (frame) => isReactServerUrl(frame.url) && !!getRscEndpoint(),
+  resolve: (frame, { debug, signal, timeout }) =>
+    resolveViaRscEndpoint(frame, debug, { signal, timeout }),
+});
+
+registerBuiltinResolverStrategy({
+  name: 'webpack-eval',
+  canHandle: (frame) => isWebpackInternalUrl(frame.url),
+  resolve: (frame, { debug, timeout }) => resolveViaWebpackEval(frame, debug, timeout),
+});
+
+registerBuiltinResolverStrategy({
+  name: 'source-map',
+  canHandle: (frame) => getSourceLoader().canLoad(frame.url),
+  resolve: (frame, { debug, timeout }) => resolveViaSourceMap(frame, debug, timeout),
+});
+
+// Tried after "source-map": Next.js client chunks whose source maps couldn't
+// be fetched or used are resolved by the dev server instead
+registerBuiltinResolverStrategy({
+  name: 'nextjs-client',
+  canHandle: (frame) => isNextjsClientChunkUrl(frame.url) && !!getPageOrigin(),
+  resolve: (frame, { debug, signal, timeout }) =>
+    resolveViaNextDevServer(frame, debug, { signal, timeout }),
+});
+
+/**
+ * Returns `result` with a `codeFrame` when one was requested, and without
+ * one otherwise (strategies may attach their own, e.g. Next.js).  Never
+ * mutates `result`, which may be the L1-cached object.
+ */
+function withCodeFrame(
+  result: ResolvedSourceInfo,
+  options: ResolveLocationOptions | undefined
+): ResolvedSourceInfo {
+  const requested = options?.codeFrame;
+  if (requested === undefined || requested === false) {
+    if (result.codeFrame === undefined) return result;
+    const { codeFrame: _omitted, ...rest } = result;
+    return rest;
+  }
+
+  const contextLines = requested === true ? DEFAULT_CODE_FRAME_LINES : requested;
+  const codeFrame = result.sourceContent
+    ? buildCodeFrame(result.sourceContent, result.line, result.column, contextLines)
+    : result.codeFrame;
+  return { ...result, codeFrame };
+}
+
+/**
+ * Resolves a stack trace line to original source location.
+ *
+ * The frame is offered to each enabled {@link ResolverStrategy} in order (see
+ * `resolver-strategies.ts`); the first non-null result wins.  Two-level cache:
+ * L1 caches the final resolved result regardless of strategy, L2 caches the
+ * parsed source map so multiple positions in the same file are fast.
+ *
+ * When `debug` is `true`, detailed logs are printed to the console showing
+ * each step of the resolution pipeline.  Pass `{ codeFrame: true }` to get
+ * the surrounding lines of the original source with the result, and
+ * `signal` / `timeout` to bound how long the resolution may take.
+ *
+ * Resolves to `null` when the frame cannot be resolved; use
+ * {@link resolveLocationDetailed} to find out why.
+ */
+export async function resolveLocation(
+  stackLine: string,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<ResolvedSourceInfo | null> {
+  const outcome = await resolveLocationDetailed(stackLine, debug, options);
+  return outcome.ok ? outcome.location : null;
+}
+
+/**
+ * Like {@link resolveLocation}, but reports why a frame could not be
+ * resolved: `{ ok: false, failure }` carries a {@link ResolveFailure} with a
+ * reason code (`fetch-failed`, `no-source-map`, `unmapped-position`, …), the
+ * URL involved and the HTTP status where there was one.  When several
+ * strategies fail, the first failure is reported.  Still rejects with an
+ * `AbortError` when `signal` aborts.
+ */
+export async function resolveLocationDetailed(
+  stackLine: string,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<DetailedResolveResult> {
+  const signal = options?.signal;
+  throwIfAborted(signal);
+
+  if (debug) console.group('[show-component] resolveLocation');
+  if (debug) console.log('Stack line:', stackLine);
+
+  const frameInfo = extractStackFrameInfo(stackLine);
+  if (!frameInfo) {
+    if (debug) {
+      console.warn('Could not extract frame info from stack line');
+      console.groupEnd();
+    }
+    return {
+      ok: false,
+      failure: { reason: 'unparseable-frame', message: `Could not parse stack line: ${stackLine}` },
     };
+  }
 
-    boundedSet(resultCache, cacheKey, { originalSource: result }, MAX_RESULT_CACHE_SIZE);
+  if (debug) console.log('Extracted frame:', frameInfo);
 
+  if (frameInfo.isNative) {
     if (debug) {
-      console.log('Resolved result:', {
-        source: result.source,
-        line: result.line,
-        column: result.column,
-        name: result.name,
-        hasSourceContent: !!result.sourceContent,
-      });
+      console.warn('Native frame has no source location');
       console.groupEnd();
     }
+    return {
+      ok: false,
+      failure: {
+        reason: 'unsupported-url',
+        message: `Native frame has no source location: ${stackLine.trim()}`,
+        url: frameInfo.url,
+      },
+    };
+  }
 
-    return result;
-  } catch (error) {
+  const { url, line, column } = frameInfo;
+  const cacheKey = `${url}:${line}:${column}`;
+  const generation = _cacheGeneration;
+
+  // L1: exact result cache
+  const cachedResult = resultCache.get(cacheKey);
+  countLookup(resultCounters, !!cachedResult);
+  if (cachedResult) {
     if (debug) {
-      console.error('Resolution failed:', error);
+      console.log('L1 cache hit:', cachedResult.originalSource);
       console.groupEnd();
     }
-    console.error('Error resolving stack frame to original source:', error);
+    return { ok: true, location: withCodeFrame(cachedResult.originalSource, options) };
+  }
+  if (debug) console.log('L1 cache miss');
+
+  if (debug) {
+    const configuredRoot = getConfiguredSourceRoot();
+    console.log(
+      'Source root:',
+      configuredRoot
+        ? { sourceRoot: configuredRoot, via: 'configuration' }
+        : (getDiscoveredSourceRoot() ?? 'none (paths stay URL-relative)')
+    );
+  }
+
+  let handled = false;
+  let failure: ResolveFailure | undefined;
+  for (const strategy of getResolverStrategies()) {
+    if (!strategy.canHandle(frameInfo)) continue;
+    if (debug) console.log(`Trying strategy "${strategy.name}"`);
+    handled = true;
+
+    let result: ResolvedSourceInfo | null;
+    try {
+      result = await raceAbort(
+        strategy.resolve(frameInfo, { debug: !!debug, signal, timeout: options?.timeout }),
+        signal
+      );
+      throwIfAborted(signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        if (debug) {
+          console.warn('Resolution aborted');
+          console.groupEnd();
+        }
+        throw isAbortError(error) ? error : createAbortError();
+      }
+      const strategyFailure = toResolveFailure(error, strategy.name);
+      if (!failure) failure = strategyFailure;
+      if (strategyFailure.reason === 'strategy-error') {
+        if (debug) console.error(`Strategy "${strategy.name}" failed:`, error);
+        console.error('Error resolving stack frame to original source:', error);
+      } else if (debug) {
+        console.warn(`Strategy "${strategy.name}" failed:`, strategyFailure);
+      }
+      continue;
+    }
+
+    if (result) {
+      if (generation === _cacheGeneration) {
+        boundedSet(resultCache, cacheKey, { originalSource: result }, getMaxResults());
+      }
+      if (debug) {
+        console.log(`Resolved by strategy "${strategy.name}":`, {
+          source: result.source,
+          line: result.line,
+          column: result.column,
+          name: result.name,
+          hasSourceContent: !!result.sourceContent,
+        });
+        console.groupEnd();
+      }
+      return { ok: true, location: withCodeFrame(result, options) };
+    }
+  }
+
+  if (debug) {
+    console.warn('No resolver strategy could resolve the frame');
+    console.groupEnd();
+  }
+  if (failure) return { ok: false, failure };
+  return {
+    ok: false,
+    failure: handled
+      ? { reason: 'unresolved', message: `Could not resolve ${url}:${line}:${column}`, url }
+      : { reason: 'unsupported-url', message: `No resolver strategy handles ${url}`, url },
+  };
+}
+
+/**
+ * Resolves many stack trace lines in one pass — e.g. every frame of a
+ * component chain.  Results are returned in input order; entries that are
+ * missing, unparseable or unresolvable map to `null`.
+ *
+ * Frames are grouped by chunk URL: the first frame of each group loads the
+ * chunk and its source map, the rest of the group then resolves from the L2
+ * cache.  Groups are resolved concurrently, and loads already in flight
+ * (from another `resolveLocation` call) are shared rather than repeated.
+ */
+export async function resolveLocations(
+  stackLines: ReadonlyArray<string | null | undefined>,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<(ResolvedSourceInfo | null)[]> {
+  const results: (ResolvedSourceInfo | null)[] = stackLines.map(() => null);
+
+  const groups = new Map<string, number[]>();
+  stackLines.forEach((stackLine, index) => {
+    const frameInfo = stackLine ? extractStackFrameInfo(stackLine) : null;
+    if (!frameInfo) return;
+    const group = groups.get(frameInfo.url);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(frameInfo.url, [index]);
+    }
+  });
+
+  const resolveAt = async (index: number) => {
+    results[index] = await resolveLocation(stackLines[index] as string, debug, options);
+  };
+
+  await Promise.all(
+    Array.from(groups.values()).map(async ([first, ...rest]) => {
+      await resolveAt(first);
+      await Promise.all(rest.map(resolveAt));
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Loads a chunk and its source map on the main thread — from the L2 cache
+ * when possible — sharing loads already in flight.
+ */
+async function getSourceMapData(
+  url: string,
+  debug?: boolean,
+  timeout?: number
+): Promise<CachedSourceMapData | null> {
+  const cached = sourceMapCache.map.get(url);
+  if (cached) return cached;
+  const pending = inFlightSourceMaps.get(url);
+  if (pending) return pending;
+
+  const chunk = await shareInFlight(inFlightChunks, url, () =>
+    fetchChunk(url, isPersistentCacheEnabled(), timeout)
+  );
+  return shareInFlight(inFlightSourceMaps, url, () =>
+    loadSourceMapData(url, chunk, debug, timeout)
+  );
+}
+
+/**
+ * Recovers the original name of a minified function via the source map's
+ * `names`: finds the definition of `generatedName` (e.g. `t`) in the chunk of
+ * `stackLine` — a frame inside the function's body — and returns the name
+ * recorded at it (e.g. `ProfileCard`).
+ *
+ * Resolves to `null` when the chunk has no source map, the definition can't
+ * be found or its mapping carries no name (unminified code).  Results are
+ * cached until `clearCaches()`.
+ */
+export async function resolveOriginalName(
+  stackLine: string,
+  generatedName: string,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<string | null> {
+  const signal = options?.signal;
+  throwIfAborted(signal);
+
+  const frameInfo = extractStackFrameInfo(stackLine);
+  if (!frameInfo || frameInfo.isNative || !/^[\w$]+$/.test(generatedName)) return null;
+  const { url, line, column } = frameInfo;
+  // Server component chunks are only resolvable through the Next.js dev server
+  if (!getSourceLoader().canLoad(url)) return null;
+
+  const cacheKey = `${url}:${line}:${column}:${generatedName}`;
+  const cached = originalNameCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let originalName: string | null = null;
+  try {
+    const data = await raceAbort(getSourceMapData(url, debug, options?.timeout), signal);
+    const definition = data && findDefinition(data.sourceContent, generatedName, line, column);
+    if (data && definition) {
+      const mapResult = await raceAbort(
+        lookupInSourceMap(data, data.effectiveUrl, { url, ...definition }, debug),
+        signal
+      );
+      originalName = mapResult?.info.name ?? null;
+    }
+    if (debug) console.log('Original name of', generatedName, '→', originalName, { definition });
+  } catch (error) {
+    if (signal?.aborted) throw isAbortError(error) ? error : createAbortError();
+    if (debug) console.warn('Could not resolve the original name of', generatedName, error);
     return null;
   }
+
+  boundedSet(originalNameCache, cacheKey, originalName, getMaxResults());
+  return originalName;
 }
 
-/** Clears all caches (including the Next.js dev server availability flag). */
-export function clearCaches(): void {
+/**
+ * Clears all caches (including the Next.js dev server availability flag, the
+ * discovered source root, the source maps held by the worker and the
+ * persistent IndexedDB store).
+ *
+ * With `urlPredicate`, only the entries of chunk URLs it matches are evicted
+ * — e.g. the files a hot update replaced.  The persistent store is left
+ * alone: its entries are keyed by content fingerprint, so a rebuilt chunk
+ * never hits a stale one.
+ */
+export function clearCaches(urlPredicate?: (url: string) => boolean): void {
+  _cacheGeneration++;
+  if (urlPredicate) {
+    evictMatching(resultCache, (key) => urlPredicate(key.replace(/:\d+:\d+$/, '')));
+    evictMatching(originalNameCache, (key) => urlPredicate(key.replace(/:\d+:\d+:[\w$]+$/, '')));
+    evictMatchingSized(
+      sourceMapCache,
+      (key, data) => urlPredicate(key) || urlPredicate(data.effectiveUrl)
+    );
+    evictMatching(inFlightChunks, urlPredicate);
+    evictMatching(inFlightSourceMaps, urlPredicate);
+    evictMatchingSized(webpackScriptCache, urlPredicate);
+    clearSourceMapWorker(urlPredicate);
+    return;
+  }
+
   resultCache.clear();
-  sourceMapCache.clear();
+  sizedClear(sourceMapCache);
+  originalNameCache.clear();
+  resetCounters(resultCounters);
+  resetCounters(sourceMapCounters);
+  inFlightChunks.clear();
+  inFlightSourceMaps.clear();
+  sizedClear(webpackScriptCache);
+  clearSourceMapWorker();
+  clearDiscoveredSourceRoot();
+  void clearPersistentCache();
   _nextDevServerAvailable = undefined;
 }
+
+function resetCounters(counters: CacheCounters): void {
+  counters.hits = 0;
+  counters.misses = 0;
+}
+
+function evictMatching<V>(map: Map<string, V>, matches: (key: string, value: V) => boolean): void {
+  for (const [key, value] of Array.from(map.entries())) {
+    if (matches(key, value)) map.delete(key);
+  }
+}
+
+function evictMatchingSized<V>(
+  cache: SizedCache<V>,
+  matches: (key: string, value: V) => boolean
+): void {
+  for (const [key, value] of Array.from(cache.map.entries())) {
+    if (matches(key, value)) sizedDelete(cache, key);
+  }
+}
+
+export interface CacheLayerStats {
+  /** Cached entries (a source map cached under two URLs counts once). */
+  entries: number;
+  /** Estimated memory held by the entries (2 bytes per character). */
+  bytes: number;
+  hits: number;
+  misses: number;
+  /** `hits / (hits + misses)`, or 0 before the first lookup. */
+  hitRate: number;
+}
+
+export interface CacheStats {
+  /** L1: resolved locations, keyed by `url:line:column`. */
+  results: CacheLayerStats;
+  /**
+   * L2: fetched chunks and their source maps, keyed by chunk URL — including
+   * the maps held by the source map worker.
+   */
+  sourceMaps: CacheLayerStats;
+}
+
+function layerStats(entries: number, bytes: number, counters: CacheCounters): CacheLayerStats {
+  const lookups = counters.hits + counters.misses;
+  return {
+    entries,
+    bytes,
+    hits: counters.hits,
+    misses: counters.misses,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+  };
+}
+
+/**
+ * Reports the size and effectiveness of the in-memory caches.  Counters
+ * start over with `clearCaches()`.
+ */
+export function getCacheStats(): CacheStats {
+  // Maps decoded by the source map worker live in the worker's own cache
+  const worker = getSourceMapWorkerCacheSize();
+  return {
+    results: layerStats(
+      new Set(resultCache.values()).size,
+      totalSize(resultCache, sizeOfResult),
+      resultCounters
+    ),
+    sourceMaps: layerStats(
+      sourceMapCache.refs.size + worker.entries,
+      sourceMapCache.bytes + worker.bytes,
+      sourceMapCounters
+    ),
+  };
+}
@@ -0,0 +1,64 @@
+// ─── Source map locators ────────────────────────────────────────────────────
+// A chunk names its source map with a `//# sourceMappingURL=…` comment.  Some
+// builds don't emit one:
+//
+//   - "hidden" source maps (`build.sourcemap: 'hidden'` in Vite,
+//     `devtool: 'hidden-source-map'` in webpack) write the `.map` files
+//     without referencing them
+//   - maps uploaded to an artifact store or error tracker are removed from
+//     the deployment altogether
+//
+// A locator maps a chunk URL to the URL of its source map instead:
+//
+//   configureSourceMapLocator({ locate: conventionalSourceMapLocator });
+//   configureSourceMapLocator({
+//     locate: (chunkUrl) => `https://artifacts.example.com/maps/${new URL(chunkUrl).pathname}.map`,
+//   });
+//
+// The URL is loaded with the configured `SourceLoader`, like a
+// `sourceMappingURL`, and may be relative to the chunk URL or a `data:` URL.
+
+/**
+ * Returns the URL of the source map for a chunk URL, or `null` when the
+ * locator doesn't know it.
+ */
+export type SourceMapLocator = (chunkUrl: string) => string | null | Promise<string | null>;
+
+export interface SourceMapLocatorConfig {
+  locate: SourceMapLocator;
+  /**
+   * When the locator is consulted:
+   *   - `'fallback'` — only for chunks without a `sourceMappingURL` comment
+   *   - `'override'` — before the comment, which is used when the locator
+   *     returns `null`
+   * @default 'fallback'
+   */
+  mode?: 'fallback' | 'override';
+}
+
+let _locator: Required<SourceMapLocatorConfig> | undefined;
+
+/**
+ * The `${chunkUrl}.map` convention of hidden source maps:
+ * `/assets/index-3f2a.js?v=1` → `/assets/index-3f2a.js.map?v=1`.
+ */
+export const conventionalSourceMapLocator: SourceMapLocator = (chunkUrl) => {
+  const suffix = chunkUrl.search(/[?#]/);
+  return suffix < 0
+    ? `${chunkUrl}.map`
+    : `${chunkUrl.slice(0, suffix)}.map${chunkUrl.slice(suffix)}`;
+};
+
+/**
+ * Sets the locator for source maps that chunks don't reference.  Pass
+ * `undefined` to remove it.  Chunks whose maps are already cached keep them
+ * until `clearCaches()`.
+ */
+export function configureSourceMapLocator(config: SourceMapLocatorConfig | undefined): void {
+  _locator = config && { locate: config.locate, mode: config.mode ?? 'fallback' };
+}
+
+/** @internal — the configured locator with defaults applied */
+export function getSourceMapLocator(): Required<SourceMapLocatorConfig> | undefined {
+  return _locator;
+}
@@ -0,0 +1,473 @@
+import { SourceMapConsumer } from '@jridgewell/source-map';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureResolver } from './resolver-config';
+import {
+  clearCaches,
+  getCacheStats,
+  lookupOnMainThread,
+  resolveLocation,
+  resolveSourcePath,
+} from './source-location-resolver';
+import {
+  type PreloadedSourceMap,
+  type SourceMapWorkerRequest,
+  type SourceMapWorkerResponse,
+  type SourceMapWorkerResult,
+  type SourceMapWorkerScope,
+  sourceMapWorkerMain,
+} from './source-map-worker';
+
+/** Runs the worker body against an in-process fake of the worker global scope. */
+function createFakeWorker(fetchImpl: typeof fetch, maxBytes = 64 * 1024 * 1024) {
+  let listener: ((event: { data: SourceMapWorkerRequest }) => void) | undefined;
+  const responses = new Map<number, (response: SourceMapWorkerResponse) => void>();
+
+  const scope: SourceMapWorkerScope = {
+    addEventListener: (_type, l) => {
+      listener = l;
+    },
+    postMessage: (message) => responses.get(message.id)?.(message),
+    fetch: fetchImpl,
+  };
+  sourceMapWorkerMain(scope);
+
+  let nextId = 0;
+  return {
+    resolve(
+      url: string,
+      line: number,
+      column: number,
+      sourceMap?: PreloadedSourceMap
+    ): Promise<SourceMapWorkerResponse> {
+      const id = ++nextId;
+      return new Promise((resolve) => {
+        responses.set(id, resolve);
+        listener?.({ data: { type: 'resolve', id, url, line, column, sourceMap, maxBytes } });
+      });
+    },
+    clear() {
+      listener?.({ data: { type: 'clear', id: ++nextId } });
+    },
+  };
+}
+
+function textResponse(body: string) {
+  return { ok: true, status: 200, statusText: 'OK', text: () => Promise.resolve(body) };
+}
+
+const sourceMap = {
+  version: 3,
+  sourceRoot: '',
+  sources: ['./src/Foo.tsx', 'webpack:///src/Bar.tsx'],
+  sourcesContent: ['function Foo() {}\n', 'function Bar() {}\n'],
+  names: ['Foo', 'Bar'],
+  // Line 1: col 0 → Foo.tsx 1:0 "Foo", col 9 → Foo.tsx 1:9, col 16 → Bar.tsx 1:9 "Bar"
+  // Line 2: col 0 has no source, col 4 → Bar.tsx 2:11 "Bar"
+  mappings: 'AAAAA,SAAS,OCAAC;A,IACEA',
+};
+
+describe('sourceMapWorkerMain', () => {
+  it('matches SourceMapConsumer for every generated position', async () => {
+    const chunk = '// generated\n//# sourceMappingURL=app.js.map';
+    const fetchMock = vi.fn(
+      (url: string) =>
+        Promise.resolve(
+          textResponse(url.endsWith('.map') ? JSON.stringify(sourceMap) : chunk)
+        ) as unknown as Promise<Response>
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+    const consumer = new SourceMapConsumer(sourceMap);
+
+    for (const line of [1, 2]) {
+      for (let column = 0; column < 24; column++) {
+        const expected = consumer.originalPositionFor({ line, column });
+        const { result } = await worker.resolve('http://localhost:3000/app.js', line, column);
+        if (expected.source === null) {
+          expect(result).toBeNull();
+        } else {
+          expect(result?.info).toEqual({
+            source: expected.source.replace(/^src\/webpack:\//, 'webpack:///'),
+            line: expected.line,
+            column: expected.column,
+            name: expected.name ?? undefined,
+          });
+        }
+      }
+    }
+
+    // Chunk + map fetched once, every later lookup hits the worker's cache
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:3000/app.js.map');
+  });
+
+  it('returns the embedded source content for the mapped source', async () => {
+    const inline = Buffer.from(JSON.stringify(sourceMap)).toString('base64');
+    const chunk = `// generated\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${inline}`;
+    const fetchMock = vi.fn(() => Promise.resolve(textResponse(chunk)));
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const { result } = await worker.resolve('http://localhost:3000/app.js', 1, 16);
+    expect(result?.info.source).toBe('webpack:///src/Bar.tsx');
+    expect(result?.sourceContent).toBe('function Bar() {}\n');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('flattens index maps with sections', async () => {
+    const indexMap = {
+      version: 3,
+      sections: [
+        { offset: { line: 0, column: 0 }, map: { ...sourceMap, sources: ['a.ts', 'b.ts'] } },
+        { offset: { line: 10, column: 5 }, map: { ...sourceMap, sources: ['c.ts', 'd.ts'] } },
+      ],
+    };
+    const chunk = '//# sourceMappingURL=chunk.js.map';
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(textResponse(url.endsWith('.map') ? JSON.stringify(indexMap) : chunk))
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const first = await worker.resolve('http://localhost:3000/chunk.js', 1, 0);
+    expect(first.result?.info).toMatchObject({ source: 'a.ts', line: 1, column: 0, name: 'Foo' });
+
+    // Line 11 is line 1 of the second section, shifted right by 5 columns
+    const second = await worker.resolve('http://localhost:3000/chunk.js', 11, 21);
+    expect(second.result?.info).toMatchObject({ source: 'd.ts', line: 1, column: 9, name: 'Bar' });
+  });
+
+  it('flags sources listed in ignoreList, offset across sections', async () => {
+    const indexMap = {
+      version: 3,
+      sections: [
+        { offset: { line: 0, column: 0 }, map: { ...sourceMap, sources: ['a.ts', 'b.ts'] } },
+        {
+          offset: { line: 10, column: 0 },
+          map: { ...sourceMap, sources: ['c.ts', 'node_modules/d.js'], ignoreList: [1] },
+        },
+      ],
+    };
+    const worker = createFakeWorker(vi.fn() as unknown as typeof fetch);
+    const preloaded = { fingerprint: 'etag:1', content: JSON.stringify(indexMap) };
+
+    const own = await worker.resolve('http://localhost:3000/chunk.js', 11, 0, preloaded);
+    expect(own.result?.info).toMatchObject({ source: 'c.ts' });
+    expect(own.result?.info.ignoreListed).toBeUndefined();
+
+    const library = await worker.resolve('http://localhost:3000/chunk.js', 11, 16, preloaded);
+    expect(library.result?.info).toMatchObject({ source: 'node_modules/d.js', ignoreListed: true });
+  });
+
+  describe('agrees with the main-thread decoder', () => {
+    const section = (map: object, line: number, column = 0) => ({
+      offset: { line, column },
+      map,
+    });
+    const fixtures: Record<string, object> = {
+      'a regular map': sourceMap,
+      'a relative sourceRoot': { ...sourceMap, sourceRoot: 'src/' },
+      'an absolute sourceRoot': { ...sourceMap, sourceRoot: '/app/src' },
+      'a URL sourceRoot and parent directories': {
+        ...sourceMap,
+        sourceRoot: 'https://cdn.example.com/assets/',
+        sources: ['../lib/./Foo.tsx', '//other.example.com/Bar.tsx'],
+      },
+      'a file sourceRoot': {
+        ...sourceMap,
+        sourceRoot: 'file:///home/me/app',
+        sources: ['../../Foo.tsx', 'src//Bar.tsx'],
+      },
+      'a webpack sourceRoot': {
+        ...sourceMap,
+        sourceRoot: 'webpack://app/',
+        sources: ['./Foo.tsx', 'Bar.tsx'],
+      },
+      'null sources and missing sourcesContent': {
+        version: 3,
+        sources: [null, 'b.ts'],
+        names: ['Foo', 'Bar'],
+        mappings: 'AAAAA,SAAS,OCAAC;A,IACEA',
+      },
+      'a sectioned map': {
+        version: 3,
+        sections: [
+          section({ ...sourceMap, sources: ['a.ts', 'b.ts'] }, 0),
+          section({ ...sourceMap, sources: ['c.ts', 'd.ts'], ignoreList: [1] }, 2, 5),
+          section({ ...sourceMap, sourceRoot: 'lib/', x_google_ignoreList: [0] }, 4),
+        ],
+      },
+    };
+
+    it.each(Object.entries(fixtures))('for %s', async (_name, map) => {
+      const content = JSON.stringify(map);
+      const url = 'http://localhost:3000/assets/app.js';
+      const worker = createFakeWorker(vi.fn() as unknown as typeof fetch);
+      // Both sides as the resolver finishes them (see `resolveViaSourceMap`)
+      const finish = (result: SourceMapWorkerResult | null) =>
+        result && {
+          ...result.info,
+          source: resolveSourcePath(result.info.source, result.sourceRoot, url),
+          sourceContent: result.sourceContent,
+        };
+
+      for (let line = 1; line <= 6; line++) {
+        for (let column = 0; column < 30; column++) {
+          const { result } = await worker.resolve(url, line, column, { fingerprint: 'f', content });
+          expect(finish(result), `${line}:${column}`).toEqual(
+            finish(lookupOnMainThread(content, line, column))
+          );
+        }
+      }
+    });
+  });
+
+  it('reports chunks without a source map', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(textResponse('// no map here')));
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const response = await worker.resolve('http://localhost:3000/plain.js', 1, 0);
+    expect(response.result).toBeNull();
+    expect(response.error).toMatch(/no source map/i);
+    expect(response).toMatchObject({
+      reason: 'no-source-map',
+      url: 'http://localhost:3000/plain.js',
+    });
+  });
+
+  it('reports HTTP failures and retries them on the next request', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' })
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const response = await worker.resolve('http://localhost:3000/missing.js', 1, 0);
+    expect(response.result).toBeNull();
+    expect(response.error).toMatch(/404/);
+    expect(response).toMatchObject({
+      reason: 'fetch-failed',
+      url: 'http://localhost:3000/missing.js',
+      status: 404,
+    });
+
+    await worker.resolve('http://localhost:3000/missing.js', 1, 0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports source maps whose debug ID differs from the chunk', async () => {
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(
+        textResponse(
+          url.endsWith('.map')
+            ? JSON.stringify({ ...sourceMap, debugId: '00000000-0000-4000-8000-000000000002' })
+            : '//# sourceMappingURL=app.js.map\n//# debugId=00000000-0000-4000-8000-000000000001'
+        )
+      )
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const response = await worker.resolve('http://localhost:3000/app.js', 1, 0);
+    expect(response.result).toBeNull();
+    expect(response).toMatchObject({
+      reason: 'debug-id-mismatch',
+      url: 'http://localhost:3000/app.js',
+    });
+  });
+
+  it('reports preloaded maps that are not valid JSON', async () => {
+    const worker = createFakeWorker(vi.fn() as unknown as typeof fetch);
+
+    const response = await worker.resolve('http://localhost:3000/app.js', 1, 0, {
+      content: '<!doctype html>',
+    });
+    expect(response.result).toBeNull();
+    expect(response.reason).toBe('invalid-source-map');
+  });
+
+  it('parses preloaded maps without fetching and keys them by fingerprint', async () => {
+    const fetchMock = vi.fn();
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+    const url = 'http://localhost:3000/app.js';
+
+    const first = await worker.resolve(url, 1, 0, {
+      fingerprint: 'etag:1',
+      content: JSON.stringify(sourceMap),
+    });
+    expect(first.result?.info.name).toBe('Foo');
+
+    // Same fingerprint — the worker still holds the decoded map
+    const second = await worker.resolve(url, 1, 16, { fingerprint: 'etag:1' });
+    expect(second.result?.info.name).toBe('Bar');
+
+    // New fingerprint without content — the main thread has to resend the map
+    const stale = await worker.resolve(url, 1, 0, { fingerprint: 'etag:2' });
+    expect(stale.missingSourceMap).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('drops cached maps on clear', async () => {
+    const chunk = '//# sourceMappingURL=app.js.map';
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(textResponse(url.endsWith('.map') ? JSON.stringify(sourceMap) : chunk))
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    await worker.resolve('http://localhost:3000/app.js', 1, 0);
+    worker.clear();
+    await worker.resolve('http://localhost:3000/app.js', 1, 0);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not keep a map whose load was in flight during a clear', async () => {
+    const chunk = '//# sourceMappingURL=app.js.map';
+    let releaseChunk: (() => void) | undefined;
+    const fetchMock = vi.fn((url: string) => {
+      const response = textResponse(url.endsWith('.map') ? JSON.stringify(sourceMap) : chunk);
+      if (url.endsWith('.map') || releaseChunk) return Promise.resolve(response);
+      return new Promise((resolve) => {
+        releaseChunk = () => resolve(response);
+      });
+    });
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const stale = worker.resolve('http://localhost:3000/app.js', 1, 0);
+    await vi.waitFor(() => expect(releaseChunk).toBeDefined());
+    worker.clear();
+    releaseChunk?.();
+    expect((await stale).result).not.toBeNull();
+
+    await worker.resolve('http://localhost:3000/app.js', 1, 0);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('evicts the least recently used maps beyond maxBytes and reports them', async () => {
+    const chunk = '//# sourceMappingURL=app.js.map';
+    const mapText = JSON.stringify(sourceMap);
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(textResponse(url.endsWith('.map') ? mapText : chunk))
+    );
+    // Room for two maps
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch, 4 * mapText.length);
+
+    await worker.resolve('http://localhost:3000/chunk-0.js', 1, 0);
+    await worker.resolve('http://localhost:3000/chunk-1.js', 1, 0);
+    // Refreshes chunk-0, so chunk-1 is the least recently used
+    await worker.resolve('http://localhost:3000/chunk-0.js', 1, 0);
+    const response = await worker.resolve('http://localhost:3000/chunk-2.js', 1, 0);
+
+    expect(response.evicted).toEqual(['http://localhost:3000/chunk-1.js']);
+    expect(response.cache).toEqual({ entries: 2, bytes: 4 * mapText.length });
+  });
+
+  it('keeps the newest map even when it alone exceeds maxBytes', async () => {
+    const chunk = '//# sourceMappingURL=app.js.map';
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(textResponse(url.endsWith('.map') ? JSON.stringify(sourceMap) : chunk))
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch, 1);
+
+    await worker.resolve('http://localhost:3000/chunk-0.js', 1, 0);
+    const response = await worker.resolve('http://localhost:3000/chunk-1.js', 1, 0);
+    expect(response.evicted).toEqual(['http://localhost:3000/chunk-0.js']);
+    expect(response.cache.entries).toBe(1);
+
+    expect((await worker.resolve('http://localhost:3000/chunk-1.js', 1, 9)).cached).toBe(true);
+  });
+
+  it('reports cache hits and the cache size with every response', async () => {
+    const chunk = '//# sourceMappingURL=app.js.map';
+    const mapText = JSON.stringify(sourceMap);
+    const fetchMock = vi.fn((url: string) =>
+      Promise.resolve(textResponse(url.endsWith('.map') ? mapText : chunk))
+    );
+    const worker = createFakeWorker(fetchMock as unknown as typeof fetch);
+
+    const first = await worker.resolve('http://localhost:3000/app.js', 1, 0);
+    expect(first.cached).toBe(false);
+    expect(first.cache).toEqual({ entries: 1, bytes: 2 * mapText.length });
+
+    const second = await worker.resolve('http://localhost:3000/app.js', 1, 9);
+    expect(second.cached).toBe(true);
+  });
+});
+
+/** A `Worker` running the worker body in-process, against the global `fetch`. */
+class InProcessWorker {
+  private onRequest: ((event: { data: SourceMapWorkerRequest }) => void) | undefined;
+  private readonly listeners: ((event: { data: SourceMapWorkerResponse }) => void)[] = [];
+
+  constructor() {
+    sourceMapWorkerMain({
+      addEventListener: (_type, listener) => {
+        this.onRequest = listener;
+      },
+      postMessage: (data) => {
+        setTimeout(() => {
+          for (const listener of this.listeners) listener({ data });
+        });
+      },
+      fetch: (input, init) => globalThis.fetch(input, init),
+    });
+  }
+
+  addEventListener(type: string, listener: (event: { data: SourceMapWorkerResponse }) => void) {
+    if (type === 'message') this.listeners.push(listener);
+  }
+
+  postMessage(data: SourceMapWorkerRequest) {
+    setTimeout(() => this.onRequest?.({ data }));
+  }
+
+  terminate() {}
+}
+
+describe('source map worker client', () => {
+  const originalFetch = globalThis.fetch;
+  const mapText = JSON.stringify(sourceMap);
+
+  beforeEach(() => {
+    vi.stubGlobal('Worker', InProcessWorker);
+    globalThis.fetch = vi.fn((url: string) =>
+      Promise.resolve(
+        textResponse(url.endsWith('.map') ? mapText : '//# sourceMappingURL=app.js.map')
+      )
+    ) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    clearCaches();
+    configureResolver(undefined);
+    globalThis.fetch = originalFetch;
+    vi.unstubAllGlobals();
+  });
+
+  it("includes the worker's maps and lookups in getCacheStats", async () => {
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    await resolveLocation('at Bar (http://localhost:3000/src/app.js:1:16)');
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    expect(getCacheStats().sourceMaps).toEqual({
+      entries: 1,
+      bytes: 2 * mapText.length,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+
+    clearCaches();
+    expect(getCacheStats().sourceMaps).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('passes maxMapBytes to the worker', async () => {
+    // Room for one map
+    configureResolver({ maxMapBytes: 2 * mapText.length });
+
+    await resolveLocation('at Foo (http://localhost:3000/src/app.js:1:0)');
+    await resolveLocation('at Foo (http://localhost:3000/src/other.js:1:0)');
+    await resolveLocation('at Bar (http://localhost:3000/src/app.js:1:16)');
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(6);
+    expect(getCacheStats().sourceMaps).toMatchObject({
+      entries: 1,
+      bytes: 2 * mapText.length,
+      misses: 3,
+    });
+  });
+});
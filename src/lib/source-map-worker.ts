@@ -0,0 +1,772 @@
+import type { RawSourceMap } from './raw-source-map';
+import type { ResolveFailureReason } from './resolve-error';
+import { getMaxMapBytes } from './resolver-config';
+import type { OriginalSourceInfo } from './source-location-resolver';
+
+// ─── Source map worker ──────────────────────────────────────────────────────
+// Parsing a large source map (vendor chunks can be 10+ MB) with JSON.parse and
+// decoding its VLQ mappings blocks the main thread for hundreds of
+// milliseconds.  The worker below does the fetching, parsing and position
+// lookup off the main thread and keeps decoded maps alive between calls.
+//
+// The worker is created from a Blob containing `sourceMapWorkerMain`'s source
+// text, so the library ships as a single module without asking the consumer's
+// bundler to emit a separate worker chunk.  When workers are unavailable
+// (SSR, tests, CSP forbidding `blob:` workers) the resolver falls back to the
+// main-thread pipeline.
+//
+// When the main thread has to load the map itself (e.g. from the persistent
+// cache) it hands the raw text to the worker, which then only parses it.
+
+/**
+ * A source map loaded by the main thread.  `content` may be omitted when the
+ * worker is expected to still hold the map under the same `fingerprint`.
+ */
+export interface PreloadedSourceMap {
+  fingerprint?: string;
+  content?: string;
+}
+
+/** Request sent from the main thread to the source map worker. */
+export type SourceMapWorkerRequest =
+  | {
+      type: 'resolve';
+      id: number;
+      url: string;
+      line: number;
+      column: number;
+      sourceMap?: PreloadedSourceMap;
+      /** Per-request fetch timeout in milliseconds. */
+      timeout?: number;
+      /** Memory budget of the worker's map cache, see `ResolverConfig.maxMapBytes`. */
+      maxBytes: number;
+    }
+  | {
+      type: 'clear';
+      id: number;
+      /** Only drop the maps of these chunk URLs (default: all). */
+      urls?: string[];
+    };
+
+/** Result of a successful position lookup inside the worker. */
+export interface SourceMapWorkerResult {
+  info: OriginalSourceInfo;
+  sourceRoot?: string;
+  sourceContent?: string;
+}
+
+/** Size of the worker's map cache, estimated as for the main-thread L2 cache. */
+export interface SourceMapWorkerCacheSize {
+  entries: number;
+  bytes: number;
+}
+
+/** Response posted back by the worker for every request. */
+export interface SourceMapWorkerResponse {
+  id: number;
+  result: SourceMapWorkerResult | null;
+  /** Why `result` is `null` (fetch failure, missing map, unmapped position…). */
+  error?: string;
+  /** Failure reason code, see `ResolveFailureReason`. */
+  reason?: ResolveFailureReason;
+  /** The URL the failure concerns (chunk or source map). */
+  url?: string;
+  /** HTTP status of a failed fetch. */
+  status?: number;
+  /** Set when a preloaded map was requested without `content` and the worker no longer has it. */
+  missingSourceMap?: boolean;
+  /** Chunk URLs whose maps the worker evicted while handling this request. */
+  evicted?: string[];
+  /** Whether the map was already in the worker's cache. */
+  cached?: boolean;
+  /** The worker's cache after handling this request. */
+  cache: SourceMapWorkerCacheSize;
+}
+
+/** The subset of `DedicatedWorkerGlobalScope` the worker body relies on. */
+export interface SourceMapWorkerScope {
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: SourceMapWorkerRequest }) => void
+  ): void;
+  postMessage(message: SourceMapWorkerResponse): void;
+  fetch: typeof fetch;
+}
+
+/**
+ * Entry point of the source map worker.
+ *
+ * IMPORTANT: this function is serialised with `Function.prototype.toString()`
+ * and evaluated inside the worker, so it must be fully self-contained — no
+ * references to imports or module-level bindings, and no syntax that the
+ * ES2015 build target lowers into shared helpers (async/await, object
+ * spread/rest, class fields).
+ */
+/** @internal — exported for testing */
+export function sourceMapWorkerMain(scope: SourceMapWorkerScope): void {
+  const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  const base64Index = new Int8Array(128).fill(-1);
+  for (let i = 0; i < BASE64_CHARS.length; i++) {
+    base64Index[BASE64_CHARS.charCodeAt(i)] = i;
+  }
+
+  // [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+  type Segment = number[];
+
+  interface DecodedMap {
+    sources: string[];
+    sourcesContent: (string | null)[];
+    names: string[];
+    sourceRoot?: string;
+    /** Indices into `sources` listed in `ignoreList` / `x_google_ignoreList`. */
+    ignoreList: number[];
+    lines: Segment[][];
+  }
+
+  interface CachedMap {
+    // `null` records "no source map" so we don't refetch
+    map: DecodedMap | null;
+    fingerprint?: string;
+    /** 2 bytes per character of the map text, like the main-thread cache. */
+    bytes: number;
+  }
+
+  // Errors carry a reason code back to the main thread
+  interface WorkerFailure extends Error {
+    reason?: ResolveFailureReason;
+    url?: string;
+    status?: number;
+  }
+
+  // Keyed by chunk URL, least recently used first.
+  const maps = new Map<string, CachedMap>();
+  const inFlight = new Map<string, Promise<CachedMap>>();
+  // Running total of `bytes` over `maps`
+  let totalBytes = 0;
+  // Bumped by every `clear`.  A load started before a clear fetched code that
+  // a hot update may have replaced, so it must not repopulate `maps`.
+  let generation = 0;
+  // Evictions since the last response, reported so the main thread can
+  // forget the URLs it tracks for partial clears
+  let evicted: string[] = [];
+
+  function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let line: Segment[] = [];
+    let generatedColumn = 0;
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+    let fields: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    const flushSegment = () => {
+      if (fields.length === 0) return;
+      generatedColumn += fields[0];
+      const segment: Segment = [generatedColumn];
+      if (fields.length >= 4) {
+        sourceIndex += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        segment.push(sourceIndex, originalLine, originalColumn);
+        if (fields.length >= 5) {
+          nameIndex += fields[4];
+          segment.push(nameIndex);
+        }
+      }
+      line.push(segment);
+      fields = [];
+    };
+
+    const flushLine = () => {
+      line.sort((a, b) => a[0] - b[0]);
+      lines.push(line);
+      line = [];
+      generatedColumn = 0;
+    };
+
+    for (let i = 0; i < mappings.length; i++) {
+      const code = mappings.charCodeAt(i);
+      if (code === 44 /* , */) {
+        flushSegment();
+        continue;
+      }
+      if (code === 59 /* ; */) {
+        flushSegment();
+        flushLine();
+        continue;
+      }
+      const digit = code < 128 ? base64Index[code] : -1;
+      if (digit < 0) throw new Error(`Invalid character in mappings: ${mappings[i]}`);
+      value |= (digit & 31) << shift;
+      if (digit & 32) {
+        shift += 5;
+      } else {
+        const negative = value & 1;
+        value >>>= 1;
+        fields.push(negative ? -0x80000000 | -value : value);
+        value = 0;
+        shift = 0;
+      }
+    }
+    flushSegment();
+    flushLine();
+    return lines;
+  }
+
+  // Drops "." and "//" and resolves ".." in a path that starts with "/".
+  // Excess ".." are kept in relative paths only.
+  function normalizePath(path: string, relative: boolean): string {
+    const pieces: string[] = [];
+    let real = 0;
+    let trailingSlash = false;
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      const piece = parts[i];
+      trailingSlash = !piece;
+      if (!piece || piece === '.') continue;
+      if (piece === '..') {
+        if (real) {
+          pieces.pop();
+          real--;
+          trailingSlash = true;
+        } else if (relative) {
+          pieces.push(piece);
+        }
+        continue;
+      }
+      pieces.push(piece);
+      real++;
+    }
+    let normalized = pieces.length ? `/${pieces.join('/')}` : '';
+    if (!normalized || (trailingSlash && !normalized.endsWith('/..'))) normalized += '/';
+    return normalized;
+  }
+
+  /**
+   * Port of `@jridgewell/resolve-uri`'s `resolve(input)` without a base, so
+   * sources come out as the main thread's `SourceMapConsumer` reports them.
+   */
+  function resolveSource(input: string): string {
+    if (!input) return '';
+    const url = /^([\w+.-]+:)\/\/([^@/#?]*@)?([^:/#?]*)(:\d+)?(\/[^#?]*)?(\?[^#]*)?(#.*)?/;
+    const file = /^file:(?:\/\/((?![a-z]:)[^/#?]*)?)?(\/?[^#?]*)(\?[^#]*)?(#.*)?/i;
+    let origin = '';
+    let relative = false;
+    let match: RegExpExecArray | null;
+    if (input.startsWith('//')) {
+      match = url.exec(`http:${input}`);
+      if (match) origin = `//${match[2] || ''}${match[3]}${match[4] || ''}`;
+    } else if (input.startsWith('/')) {
+      match = url.exec(`http://foo.com${input}`);
+    } else if (input.startsWith('file:')) {
+      const fileMatch = file.exec(input);
+      if (!fileMatch) return input;
+      const path = fileMatch[2].startsWith('/') ? fileMatch[2] : `/${fileMatch[2]}`;
+      const suffix = (fileMatch[3] || '') + (fileMatch[4] || '');
+      return `file://${fileMatch[1] || ''}${normalizePath(path, false)}${suffix}`;
+    } else if (/^[\w+.-]+:\/\//.test(input)) {
+      match = url.exec(input);
+      if (match) origin = `${match[1]}//${match[2] || ''}${match[3]}${match[4] || ''}`;
+    } else {
+      match = url.exec(`http://foo.com/${input}`);
+      relative = true;
+    }
+    if (!match) return input;
+    const path = normalizePath(match[5] || '/', relative);
+    const suffix = (match[6] || '') + (match[7] || '');
+    if (!relative) return origin + path + suffix;
+
+    const relativePath = path.slice(1);
+    if (!relativePath) return suffix || '.';
+    return /^[.?#]/.test(input) && !/^[.?#]/.test(relativePath)
+      ? `./${relativePath}${suffix}`
+      : relativePath + suffix;
+  }
+
+  // Sources are resolved as "<sourceRoot>/<source>", whatever the source —
+  // the way `@jridgewell/trace-mapping` resolves them on the main thread
+  function joinSourceRoot(sourceRoot: string | undefined, source: string): string {
+    return resolveSource((sourceRoot ? `${sourceRoot}/` : '') + source);
+  }
+
+  // Same check as `isRawSourceMap`, which can't be referenced from here
+  function isMapObject(value: unknown): value is RawSourceMap {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  function listOf<T>(value: T[] | undefined): T[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  function decodeMap(raw: RawSourceMap): DecodedMap {
+    // Index maps (Turbopack, some webpack configs) are flattened into one
+    // decoded map, offsetting every section by its generated position.
+    if (Array.isArray(raw.sections)) {
+      const combined: DecodedMap = {
+        sources: [],
+        sourcesContent: [],
+        names: [],
+        ignoreList: [],
+        lines: [],
+      };
+      for (const section of raw.sections) {
+        if (!isMapObject(section) || !isMapObject(section.map)) continue;
+        const child = decodeMap(section.map);
+        const lineOffset = section.offset ? section.offset.line : 0;
+        const columnOffset = section.offset ? section.offset.column : 0;
+        const sourceOffset = combined.sources.length;
+        const nameOffset = combined.names.length;
+        for (let i = 0; i < child.sources.length; i++) {
+          combined.sources.push(child.sources[i]);
+          combined.sourcesContent.push(child.sourcesContent[i]);
+        }
+        for (const name of child.names) combined.names.push(name);
+        for (const index of child.ignoreList) combined.ignoreList.push(index + sourceOffset);
+        for (let i = 0; i < child.lines.length; i++) {
+          const target = lineOffset + i;
+          while (combined.lines.length <= target) combined.lines.push([]);
+          for (const segment of child.lines[i]) {
+            const shifted = segment.slice();
+            if (i === 0) shifted[0] += columnOffset;
+            if (shifted.length >= 4) shifted[1] += sourceOffset;
+            if (shifted.length >= 5) shifted[4] += nameOffset;
+            combined.lines[target].push(shifted);
+          }
+        }
+      }
+      return combined;
+    }
+
+    const sourceRoot = typeof raw.sourceRoot === 'string' ? raw.sourceRoot : undefined;
+    const sources = listOf(raw.sources).map((s) =>
+      joinSourceRoot(sourceRoot, typeof s === 'string' ? s : '')
+    );
+    return {
+      sources,
+      sourcesContent: listOf(raw.sourcesContent),
+      names: listOf(raw.names),
+      sourceRoot,
+      ignoreList: Array.isArray(raw.ignoreList) ? raw.ignoreList : listOf(raw.x_google_ignoreList),
+      lines: decodeMappings(typeof raw.mappings === 'string' ? raw.mappings : ''),
+    };
+  }
+
+  function decodeDataUrl(dataUrl: string): string | null {
+    const base64 = dataUrl.match(/^data:application\/json;(?:charset=utf-?8;)?base64,(.+)$/i);
+    if (base64) {
+      const binary = atob(base64[1]);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      return new TextDecoder().decode(bytes);
+    }
+    const plainJson = dataUrl.match(/^data:application\/json(?:;charset=utf-?8)?,(.+)$/i);
+    return plainJson ? decodeURIComponent(plainJson[1]) : null;
+  }
+
+  function findComment(content: string, pattern: RegExp): string | null {
+    const lines = content.split('\n');
+    for (let i = lines.length - 1; i >= Math.max(0, lines.length - 10); i--) {
+      const match = lines[i].trim().match(pattern);
+      if (match) return match[1].trim();
+    }
+    return null;
+  }
+
+  function failure(
+    reason: ResolveFailureReason,
+    message: string,
+    url: string,
+    status?: number
+  ): WorkerFailure {
+    return Object.assign(new Error(message), { reason, url, status });
+  }
+
+  function parseMap(text: string, url: string): DecodedMap {
+    try {
+      const raw: unknown = JSON.parse(text);
+      if (!isMapObject(raw)) throw new Error('not a JSON object');
+      return decodeMap(raw);
+    } catch (error) {
+      throw failure('invalid-source-map', `Invalid source map: ${String(error)}`, url);
+    }
+  }
+
+  function fetchText(
+    url: string,
+    what: string,
+    reason: ResolveFailureReason,
+    timeout: number | undefined
+  ): Promise<string> {
+    const request = (signal: AbortSignal | undefined) =>
+      scope.fetch(url, signal ? { signal } : undefined).then((response) => {
+        if (!response.ok) {
+          throw failure(
+            reason,
+            `Failed to fetch ${what}: ${response.status} ${response.statusText}`,
+            url,
+            response.status
+          );
+        }
+        return response.text();
+      });
+    if (!timeout) return request(undefined);
+
+    const controller = typeof AbortController === 'function' ? new AbortController() : undefined;
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (controller) controller.abort();
+        reject(failure('timeout', `Failed to fetch ${what}: timed out after ${timeout} ms`, url));
+      }, timeout);
+      request(controller ? controller.signal : undefined).then(
+        (text) => {
+          clearTimeout(timer);
+          resolve(text);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  function loadMap(url: string, timeout: number | undefined): Promise<CachedMap> {
+    return fetchText(url, 'source file', 'fetch-failed', timeout).then((content) => {
+      const mapUrl = findComment(content, /^\/\/[@#]\s*sourceMappingURL=(.+)$/);
+      if (!mapUrl) return { map: null, bytes: 0 };
+      const debugId = findComment(content, /^\/\/[@#]\s*debugId=([0-9a-fA-F-]+)$/);
+      const mapText = mapUrl.startsWith('data:')
+        ? Promise.resolve(decodeDataUrl(mapUrl))
+        : fetchText(new URL(mapUrl, url).href, 'source map', 'source-map-fetch-failed', timeout);
+      return mapText.then((text) => {
+        if (!text) return { map: null, bytes: 0 };
+        // A map from a stale cache or another deploy (see `debug-id.ts`)
+        const mapDebugId = text.match(/"debug_?[iI]d"\s*:\s*"([0-9a-fA-F-]+)"/);
+        if (debugId && mapDebugId && mapDebugId[1].toLowerCase() !== debugId.toLowerCase()) {
+          throw failure(
+            'debug-id-mismatch',
+            `Source map debug ID ${mapDebugId[1].toLowerCase()} doesn't match ${debugId.toLowerCase()} of ${url}`,
+            url
+          );
+        }
+        return { map: parseMap(text, url), bytes: 2 * text.length };
+      });
+    });
+  }
+
+  function forget(url: string): void {
+    const entry = maps.get(url);
+    if (!entry) return;
+    maps.delete(url);
+    totalBytes -= entry.bytes;
+  }
+
+  /** Caches `entry`, evicting the least recently used maps beyond `maxBytes` — never `entry` itself. */
+  function remember(url: string, entry: CachedMap, maxBytes: number): void {
+    // Re-insert to refresh the LRU position
+    forget(url);
+    maps.set(url, entry);
+    totalBytes += entry.bytes;
+    for (const oldestUrl of maps.keys()) {
+      if (totalBytes <= maxBytes || oldestUrl === url) break;
+      forget(oldestUrl);
+      evicted.push(oldestUrl);
+    }
+  }
+
+  function getCached(
+    url: string,
+    preloaded: PreloadedSourceMap | undefined
+  ): CachedMap | undefined {
+    const cached = maps.get(url);
+    return cached && (!preloaded || cached.fingerprint === preloaded.fingerprint)
+      ? cached
+      : undefined;
+  }
+
+  /** Resolves to `undefined` when a preloaded map is needed but was not sent. */
+  function getMap(
+    url: string,
+    preloaded: PreloadedSourceMap | undefined,
+    timeout: number | undefined,
+    maxBytes: number
+  ): Promise<DecodedMap | null | undefined> {
+    const cached = getCached(url, preloaded);
+    if (cached) {
+      remember(url, cached, maxBytes);
+      return Promise.resolve(cached.map);
+    }
+    if (preloaded) {
+      if (preloaded.content === undefined) return Promise.resolve(undefined);
+      const map = parseMap(preloaded.content, url);
+      remember(
+        url,
+        { map, fingerprint: preloaded.fingerprint, bytes: 2 * preloaded.content.length },
+        maxBytes
+      );
+      return Promise.resolve(map);
+    }
+    let pending = inFlight.get(url);
+    if (!pending) {
+      const startedIn = generation;
+      const load: Promise<CachedMap> = loadMap(url, timeout).then(
+        (entry) => {
+          if (inFlight.get(url) === load) inFlight.delete(url);
+          if (startedIn === generation) remember(url, entry, maxBytes);
+          return entry;
+        },
+        (error) => {
+          if (inFlight.get(url) === load) inFlight.delete(url);
+          throw error;
+        }
+      );
+      inFlight.set(url, load);
+      pending = load;
+    }
+    return pending.then((entry) => entry.map);
+  }
+
+  /** Greatest-lower-bound lookup, matching `SourceMapConsumer.originalPositionFor`. */
+  function lookup(map: DecodedMap, line: number, column: number): SourceMapWorkerResult | null {
+    const segments = map.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid][0] <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found < 0) return null;
+    const segment = segments[found];
+    // An empty source (`null` in the map) counts as unmapped, as on the main thread
+    if (segment.length < 4 || !map.sources[segment[1]]) return null;
+    const name = segment.length >= 5 ? map.names[segment[4]] : undefined;
+    const info: OriginalSourceInfo = {
+      source: map.sources[segment[1]],
+      line: segment[2] + 1,
+      column: segment[3],
+      name: name || undefined,
+    };
+    if (map.ignoreList.indexOf(segment[1]) >= 0) info.ignoreListed = true;
+    return {
+      info,
+      sourceRoot: map.sourceRoot,
+      sourceContent: map.sourcesContent[segment[1]] || undefined,
+    };
+  }
+
+  // Every response reports the cache size, so the main thread can include
+  // the worker's maps in `getCacheStats()`
+  function respond(response: Omit<SourceMapWorkerResponse, 'cache'>): void {
+    const message = response as SourceMapWorkerResponse;
+    message.cache = { entries: maps.size, bytes: totalBytes };
+    if (evicted.length > 0) {
+      message.evicted = evicted;
+      evicted = [];
+    }
+    scope.postMessage(message);
+  }
+
+  scope.addEventListener('message', (event) => {
+    const request = event.data;
+    if (request.type === 'clear') {
+      generation++;
+      if (request.urls) {
+        for (const url of request.urls) {
+          forget(url);
+          inFlight.delete(url);
+        }
+      } else {
+        maps.clear();
+        inFlight.clear();
+        totalBytes = 0;
+      }
+      respond({ id: request.id, result: null });
+      return;
+    }
+    const cached = !!getCached(request.url, request.sourceMap);
+    Promise.resolve()
+      .then(() => getMap(request.url, request.sourceMap, request.timeout, request.maxBytes))
+      .then(
+        (map) => {
+          if (map === undefined) {
+            respond({ id: request.id, result: null, missingSourceMap: true, cached });
+            return;
+          }
+          if (!map) {
+            respond({
+              id: request.id,
+              result: null,
+              error: 'No source map found',
+              reason: 'no-source-map',
+              url: request.url,
+              cached,
+            });
+            return;
+          }
+          const result = lookup(map, request.line, request.column);
+          respond({
+            id: request.id,
+            result,
+            error: result ? undefined : 'Position not mapped',
+            reason: result ? undefined : 'unmapped-position',
+            cached,
+          });
+        },
+        (error: WorkerFailure) => {
+          respond({
+            id: request.id,
+            result: null,
+            error: String(error),
+            reason: error.reason || 'strategy-error',
+            url: error.url,
+            status: error.status,
+            cached,
+          });
+        }
+      );
+  });
+}
+
+// ─── Main-thread client ─────────────────────────────────────────────────────
+
+/** `undefined` = not created yet, `null` = unavailable (fall back to main thread). */
+let _worker: Worker | null | undefined;
+let _nextRequestId = 0;
+const pendingRequests = new Map<
+  number,
+  { resolve: (response: SourceMapWorkerResponse) => void; reject: (error: Error) => void }
+>();
+// Chunk URLs sent to the worker, so a partial clear knows which maps to drop
+const _requestedUrls = new Set<string>();
+// As reported by the worker's latest response
+let _cacheSize: SourceMapWorkerCacheSize = { entries: 0, bytes: 0 };
+
+function disableWorker(reason: string): void {
+  if (_worker) _worker.terminate();
+  _worker = null;
+  _cacheSize = { entries: 0, bytes: 0 };
+  for (const pending of pendingRequests.values()) {
+    pending.reject(new Error(reason));
+  }
+  pendingRequests.clear();
+}
+
+function getWorker(): Worker | null {
+  if (_worker !== undefined) return _worker;
+
+  if (
+    typeof Worker === 'undefined' ||
+    typeof Blob === 'undefined' ||
+    typeof URL === 'undefined' ||
+    typeof URL.createObjectURL !== 'function'
+  ) {
+    _worker = null;
+    return null;
+  }
+
+  try {
+    const blob = new Blob([`(${sourceMapWorkerMain.toString()})(self);`], {
+      type: 'text/javascript',
+    });
+    const worker = new Worker(URL.createObjectURL(blob));
+    worker.addEventListener('message', (event: MessageEvent<SourceMapWorkerResponse>) => {
+      _cacheSize = event.data.cache;
+      if (event.data.evicted) {
+        for (const url of event.data.evicted) _requestedUrls.delete(url);
+      }
+      const pending = pendingRequests.get(event.data.id);
+      if (pending) {
+        pendingRequests.delete(event.data.id);
+        pending.resolve(event.data);
+      }
+    });
+    // Fires when the worker script fails to load (e.g. CSP blocks blob: URLs)
+    // or throws at the top level — switch to the main-thread fallback.
+    worker.addEventListener('error', () => disableWorker('Source map worker failed'));
+    _worker = worker;
+  } catch {
+    _worker = null;
+  }
+  return _worker;
+}
+
+/** Returns `true` when source maps can be resolved in a dedicated worker. */
+export function isSourceMapWorkerAvailable(): boolean {
+  return getWorker() !== null;
+}
+
+/** Number and estimated size of the maps held by the worker. */
+export function getSourceMapWorkerCacheSize(): SourceMapWorkerCacheSize {
+  return _cacheSize;
+}
+
+/**
+ * Resolves an absolute chunk URL + generated position inside the worker.
+ * Without `sourceMap` the worker fetches the chunk and its map itself.
+ *
+ * Rejects only when the worker itself fails — the caller should then retry on
+ * the main thread.  Resolution failures are reported through
+ * {@link SourceMapWorkerResponse.error}.
+ */
+export function resolveInSourceMapWorker(
+  url: string,
+  line: number,
+  column: number,
+  sourceMap?: PreloadedSourceMap,
+  timeout?: number
+): Promise<SourceMapWorkerResponse> {
+  const worker = getWorker();
+  if (!worker) {
+    return Promise.reject(new Error('Source map worker unavailable'));
+  }
+  const id = ++_nextRequestId;
+  _requestedUrls.add(url);
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    worker.postMessage({
+      type: 'resolve',
+      id,
+      url,
+      line,
+      column,
+      sourceMap,
+      timeout,
+      maxBytes: getMaxMapBytes(),
+    } satisfies SourceMapWorkerRequest);
+  });
+}
+
+/**
+ * Drops the decoded source maps held by the worker — all of them, or those of
+ * the chunk URLs matching `urlPredicate`.  No-op if the worker was never started.
+ */
+export function clearSourceMapWorker(urlPredicate?: (url: string) => boolean): void {
+  if (!urlPredicate) {
+    _requestedUrls.clear();
+    _cacheSize = { entries: 0, bytes: 0 };
+    if (_worker) {
+      _worker.postMessage({ type: 'clear', id: ++_nextRequestId } satisfies SourceMapWorkerRequest);
+    }
+    return;
+  }
+  const urls = Array.from(_requestedUrls).filter((url) => urlPredicate(url));
+  if (urls.length === 0) return;
+  for (const url of urls) _requestedUrls.delete(url);
+  if (_worker) {
+    _worker.postMessage({
+      type: 'clear',
+      id: ++_nextRequestId,
+      urls,
+    } satisfies SourceMapWorkerRequest);
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  configureSourceRoot,
+  detectSourceRoot,
+  resolveSourcePath,
+} from './source-location-resolver';
+import {
+  SOURCE_ROOT_ENDPOINT,
+  clearDiscoveredSourceRoot,
+  discoverSourceRoot,
+  getDiscoveredSourceRoot,
+} from './source-root-discovery';
+
+describe('discoverSourceRoot', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearDiscoveredSourceRoot();
+    configureSourceRoot(undefined);
+  });
+
+  function stubDevServer(body: string, ok = true) {
+    const fetchMock = vi.fn(() => Promise.resolve({ ok, text: () => Promise.resolve(body) }));
+    vi.stubGlobal('window', { location: { origin: 'http://localhost:5173' } });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('reads the root from the well-known endpoint once and caches it', async () => {
+    const fetchMock = stubDevServer(JSON.stringify({ sourceRoot: '/Users/me/project/' }));
+
+    await expect(discoverSourceRoot()).resolves.toBe('/Users/me/project');
+    await expect(discoverSourceRoot()).resolves.toBe('/Users/me/project');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(`http://localhost:5173${SOURCE_ROOT_ENDPOINT}`);
+  });
+
+  it('ignores SPA fallback HTML', async () => {
+    stubDevServer('<!doctype html><html></html>');
+    await expect(discoverSourceRoot()).resolves.toBeUndefined();
+  });
+
+  it('does not infer a root from Vite /@fs/ dependency URLs', async () => {
+    stubDevServer('', false);
+    vi.stubGlobal('performance', {
+      getEntriesByType: () => [
+        {
+          name: 'http://localhost:5173/@fs/Users/me/repo/node_modules/.pnpm/react@18/index.js?v=1a2b',
+        },
+      ],
+    });
+
+    await expect(discoverSourceRoot()).resolves.toBeUndefined();
+    expect(getDiscoveredSourceRoot()).toBeUndefined();
+  });
+
+  it('skips the probe when a root is configured', async () => {
+    const fetchMock = stubDevServer(JSON.stringify({ sourceRoot: '/Users/me/project' }));
+    configureSourceRoot('/explicit/');
+
+    await expect(detectSourceRoot()).resolves.toBe('/explicit');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('is used by resolveSourcePath unless a root is configured', async () => {
+    stubDevServer(JSON.stringify({ sourceRoot: '/Users/me/project' }));
+    await discoverSourceRoot();
+
+    const url = 'http://localhost:5173/src/scenarios/DeepChain.tsx';
+    expect(resolveSourcePath('DeepChain.tsx', '', url)).toBe(
+      '/Users/me/project/src/scenarios/DeepChain.tsx'
+    );
+
+    configureSourceRoot('/explicit');
+    expect(resolveSourcePath('DeepChain.tsx', '', url)).toBe(
+      '/explicit/src/scenarios/DeepChain.tsx'
+    );
+  });
+});
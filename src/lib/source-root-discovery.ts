@@ -0,0 +1,81 @@
+import { normalizeFsPath } from './fs-path';
+import { requestWithLimits } from './request-limits';
+
+// ─── Source root discovery ──────────────────────────────────────────────────
+// Fallback for `getSourceRoot()` when neither `configureSourceRoot()` nor
+// `window.__SHOW_COMPONENT_SOURCE_ROOT__` is set.  Probes
+// GET /__show-component/source-root on the page origin, answered with
+// `{ "sourceRoot": "/abs/path" }` by `createSourceRootMiddleware()` from
+// `show-component/middleware`.
+//
+// Loaded URLs are deliberately not used as a hint: Vite's `/@fs/` URLs only
+// name files outside the project root, so the path in front of their
+// `node_modules` is an ancestor (e.g. a monorepo root), never the project.
+//
+// <ShowComponent> starts the probe on mount (unless `sourceRoot` is set), so
+// the root is usually known before the first click.  The probe result — found
+// or not — is cached until `clearCaches()`.
+
+export const SOURCE_ROOT_ENDPOINT = '/__show-component/source-root';
+
+export interface DiscoveredSourceRoot {
+  sourceRoot: string;
+  /** Which dev server fact the root was inferred from (for debug output). */
+  via: string;
+}
+
+let _discovered: DiscoveredSourceRoot | undefined;
+let _endpointProbe: Promise<string | undefined> | undefined;
+
+export function clearDiscoveredSourceRoot(): void {
+  _discovered = undefined;
+  _endpointProbe = undefined;
+}
+
+async function probeEndpoint(): Promise<string | undefined> {
+  if (typeof window === 'undefined' || !window.location || typeof fetch !== 'function') {
+    return undefined;
+  }
+  try {
+    const url = `${window.location.origin}${SOURCE_ROOT_ENDPOINT}`;
+    return await requestWithLimits(url, undefined, undefined, async (response) => {
+      if (!response.ok) return undefined;
+      // SPA fallbacks answer unknown paths with index.html — only accept JSON
+      const body = JSON.parse(await response.text()) as { sourceRoot?: unknown };
+      return typeof body.sourceRoot === 'string' && body.sourceRoot
+        ? normalizeFsPath(body.sourceRoot)
+        : undefined;
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function remember(sourceRoot: string, via: string, debug?: boolean): DiscoveredSourceRoot {
+  _discovered = { sourceRoot, via };
+  if (debug) console.log('[show-component] Discovered source root:', _discovered);
+  return _discovered;
+}
+
+/** Returns the source root found by `discoverSourceRoot()`, if any. */
+export function getDiscoveredSourceRoot(): DiscoveredSourceRoot | undefined {
+  return _discovered;
+}
+
+/**
+ * Tries to infer the absolute project root from the dev server.  Resolves to
+ * `undefined` when nothing could be inferred.  The endpoint is probed at most
+ * once until `clearCaches()`.
+ */
+export async function discoverSourceRoot(debug?: boolean): Promise<string | undefined> {
+  if (_discovered) return _discovered.sourceRoot;
+
+  if (!_endpointProbe) _endpointProbe = probeEndpoint();
+  const root = await _endpointProbe;
+  if (root) return remember(root, SOURCE_ROOT_ENDPOINT, debug).sourceRoot;
+
+  if (debug) {
+    console.log('[show-component] Could not discover a source root; paths stay URL-relative');
+  }
+  return undefined;
+}
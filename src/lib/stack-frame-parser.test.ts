@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import stackFixtures from './__fixtures__/stacks.json';
+import { parseStack, parseStackFrame } from './stack-frame-parser';
+
+describe('parseStack — fixture corpus', () => {
+  it.each(stackFixtures.map((fixture) => [fixture.name, fixture] as const))(
+    '%s',
+    (_name, fixture) => {
+      expect(parseStack(fixture.stack)).toEqual(fixture.frames);
+    }
+  );
+});
+
+describe('parseStackFrame', () => {
+  it('returns null for lines that are not frames', () => {
+    expect(parseStackFrame('Error: something went wrong')).toBeNull();
+    expect(parseStackFrame('TypeError: mail user@example.com failed')).toBeNull();
+    expect(parseStackFrame('Error: timed out at 12:30')).toBeNull();
+    expect(parseStackFrame('')).toBeNull();
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(parseStackFrame('    at Foo (http://localhost:3000/app.js:1:2)  ')).toEqual({
+      functionName: 'Foo',
+      url: 'http://localhost:3000/app.js',
+      line: 1,
+      column: 2,
+    });
+  });
+
+  it('parses Windows paths', () => {
+    expect(parseStackFrame('at render (file:///C:/Users/dev/project/dist/app.js:12:34)')).toEqual({
+      functionName: 'render',
+      url: 'file:///C:/Users/dev/project/dist/app.js',
+      line: 12,
+      column: 34,
+    });
+    expect(parseStackFrame('at D:\\work\\app\\index.js:1:15')).toEqual({
+      url: 'D:\\work\\app\\index.js',
+      line: 1,
+      column: 15,
+    });
+  });
+
+  it('keeps parentheses that are part of the URL', () => {
+    expect(parseStackFrame('at Button (http://localhost:5173/src/Button (1).js:8:3)')).toEqual({
+      functionName: 'Button',
+      url: 'http://localhost:5173/src/Button (1).js',
+      line: 8,
+      column: 3,
+    });
+  });
+
+  it('parses React Server Components frames', () => {
+    const url =
+      'about://React/Server/file:///Users/dev/app/.next/server/chunks/ssr/%5Broot-of-the-server%5D__63dfaf64._.js?20';
+    expect(parseStackFrame(`at LandingPage (${url}:141:295)`)).toEqual({
+      functionName: 'LandingPage',
+      url,
+      line: 141,
+      column: 295,
+    });
+  });
+
+  it('marks Firefox async boundaries', () => {
+    expect(parseStackFrame('async*ProfilePage@http://localhost:3000/main.js:60:5')).toEqual({
+      functionName: 'ProfilePage',
+      url: 'http://localhost:3000/main.js',
+      line: 60,
+      column: 5,
+      isAsync: true,
+    });
+    expect(parseStackFrame('promise callback*load@http://localhost:3000/main.js:70:9')).toEqual({
+      functionName: 'load',
+      url: 'http://localhost:3000/main.js',
+      line: 70,
+      column: 9,
+      isAsync: true,
+    });
+  });
+
+  it('reports the Function() call site for Firefox Function frames', () => {
+    expect(parseStackFrame('run@http://localhost:8080/main.js line 7 > Function:1:4')).toEqual({
+      functionName: 'run',
+      url: 'http://localhost:8080/main.js',
+      line: 7,
+      column: 0,
+      isEval: true,
+    });
+  });
+
+  it('drops Safari pseudo-function names', () => {
+    expect(parseStackFrame('module code@http://localhost:5173/src/main.tsx:8')).toEqual({
+      url: 'http://localhost:5173/src/main.tsx',
+      line: 8,
+      column: 0,
+    });
+    expect(parseStackFrame('global code@http://localhost:8080/main.js:40:1')).toEqual({
+      url: 'http://localhost:8080/main.js',
+      line: 40,
+      column: 1,
+    });
+  });
+
+  it('keeps the port out of the line number when Safari omits the column', () => {
+    expect(parseStackFrame('Foo@http://localhost:3000/app.js:10')).toEqual({
+      functionName: 'Foo',
+      url: 'http://localhost:3000/app.js',
+      line: 10,
+      column: 0,
+    });
+  });
+});
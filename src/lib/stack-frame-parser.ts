@@ -0,0 +1,193 @@
+// ─── Stack frame parser ─────────────────────────────────────────────────────
+// Turns the lines of an `Error.stack` into structured frames.  Two families
+// of formats exist:
+//
+//   V8 (Chrome, Edge, Node):
+//     at Foo (http://localhost:3000/src/App.tsx:12:5)
+//     at http://localhost:3000/src/App.tsx:12:5
+//     at async Foo (…)              — awaited caller of an async function
+//     at new Foo (…)                — constructor call
+//     at eval (eval at Foo (http://…/app.js:1:2), <anonymous>:3:4)
+//     at Array.map (<anonymous>)    — native built-in, no location
+//
+//   SpiderMonkey / JavaScriptCore (Firefox, Safari):
+//     Foo@http://localhost:3000/src/App.tsx:12:5
+//     @http://localhost:3000/src/App.tsx:12:5      — anonymous (Safari)
+//     async*Foo@…                                  — async boundary (Firefox)
+//     Foo@http://…/app.js line 5 > eval:3:4        — eval (Firefox)
+//     eval code@… / global code@…                  — Safari pseudo-functions
+//     forEach@[native code]                        — native built-in (Safari)
+//     http://localhost:3000/src/App.tsx:12:5       — anonymous, no "@" (Safari 7+)
+//     eval code / [native code]                    — no "@" at all (Safari)
+//
+// Browser captures, with the browser version of each, live in
+// __fixtures__/stacks.json.
+//
+// Eval frames report the location of the `eval()` call in the enclosing
+// script — the position inside the evaluated code has no source to map to.
+// Native frames have no location at all: `url` holds the raw marker
+// (`native`, `<anonymous>`, `[native code]`) and `line` / `column` are 0.
+
+export interface StackFrameInfo {
+  url: string;
+  line: number;
+  column: number;
+  functionName?: string;
+  /** The frame is an awaited caller (`at async Foo`, Firefox `async*Foo@`). */
+  isAsync?: boolean;
+  /** The frame runs evaluated code; the location is that of the `eval()` call. */
+  isEval?: boolean;
+  /** The function was called with `new` (`at new Foo`). */
+  isConstructor?: boolean;
+  /** A built-in without a source location — cannot be resolved. */
+  isNative?: boolean;
+}
+
+const V8_LOCATION_RE = /^(.*):(\d+):(\d+)$/;
+// Firefox and Safari occasionally omit the column
+const GECKO_LOCATION_RE = /^(.*?):(\d+)(?::(\d+))?$/;
+// Innermost `(url:line:col)` of a (possibly nested) V8 eval origin
+const V8_EVAL_ORIGIN_RE = /\(([^()]+):(\d+):(\d+)\)/;
+const GECKO_EVAL_RE = /^(.*?) line (\d+) > (?:eval|Function)/;
+// Safari names top-level code after its kind rather than a function
+const SAFARI_PSEUDO_FUNCTIONS = /^(?:global|module|eval) code$/;
+const V8_NATIVE_LOCATIONS = /^(?:native|<anonymous>|index \d+|unknown location)$/;
+// A Safari frame without a function name drops the "@" along with it
+const SAFARI_BARE_LOCATION_RE = /^[a-z][\w+.-]*:\/\/\S*:\d+(?::\d+)?$/i;
+
+function createFrame(
+  url: string,
+  line: number,
+  column: number,
+  functionName: string | undefined,
+  flags: { isAsync?: boolean; isEval?: boolean; isConstructor?: boolean; isNative?: boolean }
+): StackFrameInfo {
+  const frame: StackFrameInfo = { url, line, column };
+  if (functionName) frame.functionName = functionName;
+  // Flags are only present when set, like `ignoreListed` on resolved locations
+  if (flags.isAsync) frame.isAsync = true;
+  if (flags.isEval) frame.isEval = true;
+  if (flags.isConstructor) frame.isConstructor = true;
+  if (flags.isNative) frame.isNative = true;
+  return frame;
+}
+
+/** Index of the `(` matching the `)` that ends `text`, or -1. */
+function findOpeningParen(text: string): number {
+  let depth = 0;
+  for (let i = text.length - 1; i >= 0; i--) {
+    if (text[i] === ')') depth++;
+    else if (text[i] === '(' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function parseV8Frame(body: string): StackFrameInfo | null {
+  let rest = body;
+  const isAsync = rest.startsWith('async ');
+  if (isAsync) rest = rest.slice('async '.length).trim();
+
+  let functionName: string | undefined;
+  let location = rest;
+  if (rest.endsWith(')')) {
+    const open = findOpeningParen(rest);
+    if (open >= 0) {
+      functionName = rest.slice(0, open).trim() || undefined;
+      location = rest.slice(open + 1, -1).trim();
+    }
+  }
+
+  const isConstructor = !!functionName && functionName.startsWith('new ');
+  if (isConstructor && functionName) functionName = functionName.slice('new '.length);
+
+  if (location.startsWith('eval at ')) {
+    const origin = location.match(V8_EVAL_ORIGIN_RE);
+    if (!origin) {
+      return createFrame(location, 0, 0, functionName, { isAsync, isEval: true, isNative: true });
+    }
+    return createFrame(origin[1], Number(origin[2]), Number(origin[3]), functionName, {
+      isAsync,
+      isEval: true,
+      isConstructor,
+    });
+  }
+
+  if (V8_NATIVE_LOCATIONS.test(location)) {
+    return createFrame(location, 0, 0, functionName, { isAsync, isConstructor, isNative: true });
+  }
+
+  const match = location.match(V8_LOCATION_RE);
+  if (!match) return null;
+  return createFrame(match[1], Number(match[2]), Number(match[3]), functionName, {
+    isAsync,
+    isConstructor,
+  });
+}
+
+function parseGeckoFrame(line: string, at: number): StackFrameInfo | null {
+  let functionName = line.slice(0, at);
+  const location = line.slice(at + 1);
+
+  // Firefox prefixes async frames with their cause: "async*", "promise callback*", …
+  const star = functionName.indexOf('*');
+  const isAsync = star >= 0;
+  if (isAsync) functionName = functionName.slice(star + 1);
+
+  const isEval = functionName === 'eval code' || functionName === 'eval';
+  if (SAFARI_PSEUDO_FUNCTIONS.test(functionName)) functionName = '';
+
+  // Safari prints a bare "eval code@" for evaluated code without a sourceURL
+  if (location === '[native code]' || location === '') {
+    return createFrame(location, 0, 0, functionName || undefined, {
+      isAsync,
+      isEval,
+      isNative: true,
+    });
+  }
+
+  const evalMatch = location.match(GECKO_EVAL_RE);
+  if (evalMatch) {
+    return createFrame(evalMatch[1], Number(evalMatch[2]), 0, functionName || undefined, {
+      isAsync,
+      isEval: true,
+    });
+  }
+
+  const match = location.match(GECKO_LOCATION_RE);
+  if (!match || !match[1]) return null;
+  return createFrame(
+    match[1],
+    Number(match[2]),
+    match[3] ? Number(match[3]) : 0,
+    functionName || undefined,
+    { isAsync, isEval }
+  );
+}
+
+/**
+ * Parses one line of an `Error.stack` (V8, Firefox or Safari format).
+ * Returns `null` for lines that are not stack frames, e.g. the leading
+ * `Error: message` line.
+ */
+export function parseStackFrame(stackLine: string): StackFrameInfo | null {
+  const line = stackLine.trim();
+  if (line.startsWith('at ')) return parseV8Frame(line.slice('at '.length).trim());
+
+  const at = line.indexOf('@');
+  if (at >= 0) return parseGeckoFrame(line, at);
+
+  if (SAFARI_BARE_LOCATION_RE.test(line)) return parseGeckoFrame(`@${line}`, 0);
+  if (line === '[native code]') return createFrame(line, 0, 0, undefined, { isNative: true });
+  if (SAFARI_PSEUDO_FUNCTIONS.test(line)) return parseGeckoFrame(`${line}@`, line.length);
+  return null;
+}
+
+/** Parses every frame of an `Error.stack`, skipping lines that are not frames. */
+export function parseStack(stack: string): StackFrameInfo[] {
+  const frames: StackFrameInfo[] = [];
+  for (const line of stack.split('\n')) {
+    const frame = parseStackFrame(line);
+    if (frame) frames.push(frame);
+  }
+  return frames;
+}
@@ -0,0 +1,85 @@
+import { SourceMapGenerator } from '@jridgewell/source-map';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clearCaches } from './source-location-resolver';
+import { symbolicateStack } from './symbolicate-stack';
+
+const originalFetch = globalThis.fetch;
+
+function mockBuild() {
+  const generator = new SourceMapGenerator({ file: 'app.js' });
+  generator.addMapping({
+    generated: { line: 1, column: 0 },
+    original: { line: 12, column: 4 },
+    source: 'Foo.tsx',
+  });
+  generator.addMapping({
+    generated: { line: 2, column: 0 },
+    original: { line: 3, column: 2 },
+    source: 'Bar.tsx',
+  });
+  const map = generator.toString();
+  const mockFetch = vi.fn((url: string) => {
+    if (url.indexOf('/src/') < 0) {
+      return Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' });
+    }
+    return Promise.resolve({
+      ok: true,
+      text: () =>
+        Promise.resolve(url.endsWith('.map') ? map : 'a();\nb();\n//# sourceMappingURL=app.js.map'),
+    });
+  });
+  globalThis.fetch = mockFetch as unknown as typeof fetch;
+  return mockFetch;
+}
+
+describe('symbolicateStack', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    clearCaches();
+  });
+
+  it('rewrites the resolved frames of an Error.stack and keeps the rest', async () => {
+    const mockFetch = mockBuild();
+    const stack = [
+      'Error: boom',
+      '    at Foo (http://localhost:3000/src/app.js:1:10)',
+      '    at Array.map (<anonymous>)',
+      '    at async new Bar (http://localhost:3000/src/app.js:2:5)',
+      '    at http://localhost:3000/lib/vendor.js:1:1',
+    ].join('\n');
+
+    const result = await symbolicateStack(stack);
+
+    expect(result.stack).toBe(
+      [
+        'Error: boom',
+        '    at Foo (/src/Foo.tsx:12:5)',
+        '    at Array.map (<anonymous>)',
+        '    at async new Bar (/src/Bar.tsx:3:3)',
+        '    at http://localhost:3000/lib/vendor.js:1:1',
+      ].join('\n')
+    );
+    expect(result.frames.map((frame) => frame.location?.source)).toEqual([
+      '/src/Foo.tsx',
+      undefined,
+      '/src/Bar.tsx',
+      undefined,
+    ]);
+    expect(result.frames[1]).toMatchObject({
+      line: '    at Array.map (<anonymous>)',
+      frame: { isNative: true },
+    });
+    // Both frames of app.js share one chunk and one source map load
+    expect(mockFetch.mock.calls.filter(([url]) => url.indexOf('/src/') >= 0)).toHaveLength(2);
+  });
+
+  it('handles Firefox / Safari component stacks', async () => {
+    mockBuild();
+    const componentStack =
+      '\nFoo@http://localhost:3000/src/app.js:1:10\n@http://localhost:3000/src/app.js:2:5';
+
+    const result = await symbolicateStack(componentStack);
+
+    expect(result.stack).toBe('\nFoo@/src/Foo.tsx:12:5\n@/src/Bar.tsx:3:3');
+  });
+});
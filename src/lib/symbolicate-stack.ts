@@ -0,0 +1,90 @@
+import {
+  type ResolveLocationOptions,
+  type ResolvedSourceInfo,
+  resolveLocations,
+} from './source-location-resolver';
+import { type StackFrameInfo, parseStackFrame } from './stack-frame-parser';
+
+// ─── Stack symbolication ────────────────────────────────────────────────────
+// Resolves every frame of a whole stack — `Error.stack`, React's
+// `componentStack` or `captureOwnerStack()` — and rewrites the stack with the
+// original locations, keeping its format:
+//
+//   Error: boom                               Error: boom
+//       at Foo (http://…/app.js:1:2345)   →       at Foo (/app/src/Foo.tsx:12:5)
+//       at Array.map (<anonymous>)                at Array.map (<anonymous>)
+//
+// Frames that can't be resolved (native frames, chunks without source maps)
+// and lines that aren't frames (the message, React 18's `in Foo` lines) are
+// kept as they are.
+
+export interface SymbolicatedFrame {
+  /** The stack line the frame was parsed from, without its line break. */
+  line: string;
+  frame: StackFrameInfo;
+  /** The original location, absent when the frame couldn't be resolved. */
+  location?: ResolvedSourceInfo;
+}
+
+export interface SymbolicatedStack {
+  /** Every frame of the stack, in order. */
+  frames: SymbolicatedFrame[];
+  /** The stack with resolved frames pointing at their original locations. */
+  stack: string;
+}
+
+/**
+ * Rewrites a stack line for its original location, in the line's own format
+ * (V8 `at Foo (…)` or Firefox / Safari `Foo@…`) and indentation.  Columns are
+ * 1-based, like those of the engines' stacks.
+ */
+function formatFrame(line: string, frame: StackFrameInfo, location: ResolvedSourceInfo): string {
+  const indent = line.match(/^\s*/)?.[0] ?? '';
+  const position = `${location.source}:${location.line}:${location.column + 1}`;
+  const name = frame.functionName;
+
+  if (line.trim().startsWith('at ')) {
+    const prefix = `${frame.isAsync ? 'async ' : ''}${frame.isConstructor ? 'new ' : ''}`;
+    return name ? `${indent}at ${prefix}${name} (${position})` : `${indent}at ${prefix}${position}`;
+  }
+  return `${indent}${frame.isAsync ? 'async*' : ''}${name ?? ''}@${position}`;
+}
+
+/**
+ * Resolves every frame of `stack` to its original location.  Frames are
+ * resolved concurrently through the shared caches (see `resolveLocations`),
+ * so a chunk's source map is loaded once however many frames point into it.
+ */
+export async function symbolicateStack(
+  stack: string,
+  debug?: boolean,
+  options?: ResolveLocationOptions
+): Promise<SymbolicatedStack> {
+  const lines = stack.split('\n');
+  const frames: Array<StackFrameInfo | null> = lines.map((line) => {
+    const frame = parseStackFrame(line);
+    return frame && !frame.isNative ? frame : null;
+  });
+
+  const locations = await resolveLocations(
+    lines.map((line, index) => (frames[index] ? line : null)),
+    debug,
+    options
+  );
+
+  const symbolicated: SymbolicatedFrame[] = [];
+  const output = lines.map((line, index) => {
+    const frame = frames[index] ?? parseStackFrame(line);
+    if (!frame) return line;
+    const location = locations[index];
+    const text = line.replace(/\r$/, '');
+    if (!location) {
+      symbolicated.push({ line: text, frame });
+      return line;
+    }
+    symbolicated.push({ line: text, frame, location });
+    return formatFrame(text, frame, location);
+  });
+
+  return { frames: symbolicated, stack: output.join('\n') };
+}
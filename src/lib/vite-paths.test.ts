@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isVitePrebundledDep, resolveVitePath, viteFsPath, viteModuleId } from './vite-paths';
+
+describe('viteFsPath', () => {
+  it.each([
+    ['/@fs/home/me/repo/packages/ui/src/Button.tsx', '/home/me/repo/packages/ui/src/Button.tsx'],
+    ['/app/@fs/home/me/repo/x.tsx', '/home/me/repo/x.tsx'],
+    ['/@fs/C:/Users/me/repo/x.tsx', 'C:/Users/me/repo/x.tsx'],
+    ['/@fs/home/me/my%20repo/x.tsx', '/home/me/my repo/x.tsx'],
+  ])('%s → %s', (path, expected) => {
+    expect(viteFsPath(path)).toBe(expected);
+  });
+
+  it('returns null for other paths', () => {
+    expect(viteFsPath('/src/App.tsx')).toBeNull();
+    expect(viteFsPath('/@id/react')).toBeNull();
+  });
+});
+
+describe('viteModuleId', () => {
+  it.each([
+    ['/@id/__x00__virtual:icons', 'virtual:icons'],
+    ['/@id/virtual:routes', 'virtual:routes'],
+    ['/app/@id/__x00__plugin-vue:export-helper', 'plugin-vue:export-helper'],
+  ])('%s → %s', (path, expected) => {
+    expect(viteModuleId(path)).toBe(expected);
+  });
+
+  it('returns null for other paths', () => {
+    expect(viteModuleId('/src/App.tsx')).toBeNull();
+  });
+});
+
+describe('resolveVitePath', () => {
+  it.each([
+    ['/@fs/home/me/repo/x.tsx', '/home/me/repo/x.tsx'],
+    ['/@id//home/me/repo/x.tsx', '/home/me/repo/x.tsx'],
+    ['/@id/C:\\repo\\x.tsx', 'C:/repo/x.tsx'],
+    ['/@id/__x00__virtual:icons', 'virtual:icons'],
+  ])('%s → %s', (path, expected) => {
+    expect(resolveVitePath(path)).toBe(expected);
+  });
+
+  it('returns null for other paths', () => {
+    expect(resolveVitePath('src/App.tsx')).toBeNull();
+  });
+});
+
+describe('isVitePrebundledDep', () => {
+  it.each([
+    ['http://localhost:5173/node_modules/.vite/deps/react-dom_client.js?v=1a2b', true],
+    ['http://localhost:5173/node_modules/.vite/deps_temp_3f2a/react.js', true],
+    ['http://localhost:5173/app/node_modules/.vite/deps/chunk-ABCD.js', true],
+    ['http://localhost:5173/node_modules/react/index.js', false],
+    ['http://localhost:5173/src/App.tsx', false],
+  ])('%s → %s', (url, expected) => {
+    expect(isVitePrebundledDep(url)).toBe(expected);
+  });
+});
@@ -0,0 +1,74 @@
+import { isWindowsAbsolutePath, normalizeFsPath } from './fs-path';
+
+// ─── Vite URL paths ─────────────────────────────────────────────────────────
+// Vite's dev server serves modules under URL paths that aren't paths below
+// the project root:
+//
+//   /@fs/home/me/repo/packages/ui/src/Button.tsx   files outside the root —
+//                                                  linked workspace packages,
+//                                                  hoisted node_modules — by
+//                                                  absolute path
+//   /@id/__x00__virtual:icons                      virtual modules and other
+//                                                  ids that aren't valid URLs
+//   /node_modules/.vite/deps/react-dom_client.js   pre-bundled dependencies
+//
+// Sources resolved against those URLs must not get the source root prefixed
+// (`/Users/me/app/@fs/home/me/…`), and the `/@fs` / `/@id` prefixes must go.
+// Each prefix may follow Vite's `base` path (`/app/@fs/…`).
+
+const FS_PREFIX = '/@fs/';
+const ID_PREFIX = '/@id/';
+// Vite encodes the \0 of virtual module ids (a Rollup convention) as "__x00__"
+const NULL_BYTE_PLACEHOLDER = '__x00__';
+
+function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Returns the absolute filesystem path of a `/@fs/` URL path, or `null` for
+ * other paths:
+ *   /@fs/home/me/repo/x.tsx   → /home/me/repo/x.tsx
+ *   /@fs/C:/Users/me/x.tsx    → C:/Users/me/x.tsx
+ */
+export function viteFsPath(path: string): string | null {
+  const index = path.indexOf(FS_PREFIX);
+  if (index < 0) return null;
+  return normalizeFsPath(decodePath(path.slice(index + FS_PREFIX.length - 1)));
+}
+
+/**
+ * Returns the module id of a `/@id/` URL path, or `null` for other paths:
+ *   /@id/__x00__virtual:icons   → virtual:icons
+ *   /@id//home/me/repo/x.tsx    → /home/me/repo/x.tsx
+ */
+export function viteModuleId(path: string): string | null {
+  const index = path.indexOf(ID_PREFIX);
+  if (index < 0) return null;
+  let id = decodePath(path.slice(index + ID_PREFIX.length));
+  if (id.startsWith(NULL_BYTE_PLACEHOLDER)) id = id.slice(NULL_BYTE_PLACEHOLDER.length);
+  return id;
+}
+
+/**
+ * Resolves a source path in one of Vite's special URL forms to its final
+ * form — a filesystem path or a module id, which the source root doesn't
+ * apply to.  Returns `null` for other paths.
+ */
+export function resolveVitePath(path: string): string | null {
+  const fsPath = viteFsPath(path);
+  if (fsPath !== null) return fsPath;
+  const id = viteModuleId(path);
+  if (id === null) return null;
+  // An absolute path Vite couldn't serve as a URL ("/@id//home/…", "/@id/C:/…")
+  return id.startsWith('/') || isWindowsAbsolutePath(id) ? normalizeFsPath(id) : id;
+}
+
+/** Whether `url` is a dependency pre-bundled by Vite (`/node_modules/.vite/deps/…`). */
+export function isVitePrebundledDep(url: string): boolean {
+  return /\/node_modules\/\.vite\/deps(?:_[^/]*)?\//.test(url);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { extractEvalModule } from './webpack-eval';
+
+describe('extractEvalModule', () => {
+  const url = 'webpack-internal:///./src/App.tsx';
+  const code = 'const a = "quoted \\"text\\"";\n//# sourceURL=webpack-internal:///./src/App.tsx\n';
+  const chunk = [
+    '/***/ "./src/App.tsx.css":',
+    `/***/ (() => { eval(${JSON.stringify('css();\n//# sourceURL=webpack-internal:///./src/App.tsx.css\n')}); }),`,
+    '/***/ "./src/App.tsx":',
+    `/***/ ((module) => { eval(${JSON.stringify(code)}); }),`,
+  ].join('\n');
+
+  it('returns the code evaluated under the sourceURL', () => {
+    expect(extractEvalModule(chunk, url)).toBe(code);
+  });
+
+  it('supports trusted types wrappers', () => {
+    const wrapped = `eval(__webpack_require__.ts(${JSON.stringify(code)}));`;
+    expect(extractEvalModule(wrapped, url)).toBe(code);
+  });
+
+  it('returns null when the module is not in the source', () => {
+    expect(extractEvalModule(chunk, 'webpack-internal:///./src/Other.tsx')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+// ─── webpack eval modules ───────────────────────────────────────────────────
+// With webpack's `eval*` devtools (`eval-source-map` is the default in
+// development), every module is a string evaluated by its factory, named with
+// a `sourceURL` comment and carrying its own inline source map:
+//
+//   "./src/App.tsx": ((module, exports, __webpack_require__) => {
+//     eval("…code…\n//# sourceMappingURL=data:application/json;…base64,…\n//# sourceURL=webpack-internal:///./src/App.tsx\n");
+//   })
+//
+// Frames in that code point at the `sourceURL` — `webpack-internal:///…`,
+// which can't be fetched.  The evaluated code is recovered from the source of
+// the module factory instead, found:
+//
+//   1. in webpack's chunk registry (`self.webpackChunk<name>`), which holds
+//      the factories of every chunk loaded after the entry chunk
+//   2. in the scripts of the page — the entry chunk's factories never reach
+//      the registry
+
+export const WEBPACK_INTERNAL_PREFIX = 'webpack-internal:///';
+
+export function isWebpackInternalUrl(url: string): boolean {
+  return url.startsWith(WEBPACK_INTERNAL_PREFIX);
+}
+
+/**
+ * Extracts the code evaluated with `//# sourceURL=<url>` from `source` — a
+ * chunk, or the source of a module factory.  Returns `null` when `source`
+ * doesn't contain the module.
+ */
+export function extractEvalModule(source: string, url: string): string | null {
+  const marker = `sourceURL=${url}`;
+  for (let index = source.indexOf(marker); index >= 0; index = source.indexOf(marker, index + 1)) {
+    // Skip longer URLs starting with this one (`./App.tsx` vs `./App.tsx.css`)
+    const next = source.charAt(index + marker.length);
+    if (next !== '\\' && next !== '"') continue;
+
+    const evalStart = source.lastIndexOf('eval(', index);
+    const quote = evalStart < 0 ? -1 : source.indexOf('"', evalStart);
+    if (quote < 0 || quote > index) continue;
+    const end = findStringEnd(source, quote);
+    if (end < index) continue;
+    try {
+      return JSON.parse(source.slice(quote, end + 1));
+    } catch {
+      // Not a JSON string literal after all
+    }
+  }
+  return null;
+}
+
+/** Index of the quote closing the string literal opened at `quote`, or -1. */
+function findStringEnd(source: string, quote: number): number {
+  for (let index = quote + 1; index < source.length; index++) {
+    const char = source.charAt(index);
+    if (char === '\\') index++;
+    else if (char === '"') return index;
+  }
+  return -1;
+}
+
+type ChunkRegistryEntry = [unknown, Record<string, unknown>?, ...unknown[]];
+
+/**
+ * Returns the source of the module factory for `url` from webpack's chunk
+ * registries, or `null` when no loaded chunk registered it.
+ */
+export function findModuleInRegistry(url: string): string | null {
+  if (typeof self === 'undefined') return null;
+  const moduleId = url.slice(WEBPACK_INTERNAL_PREFIX.length);
+  const globals = self as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(globals)) {
+    if (!key.startsWith('webpackChunk')) continue;
+    const registry = globals[key];
+    if (!Array.isArray(registry)) continue;
+    for (const entry of registry as ChunkRegistryEntry[]) {
+      const factory = Array.isArray(entry) && entry[1] ? entry[1][moduleId] : undefined;
+      if (typeof factory === 'function') return factory.toString();
+    }
+  }
+  return null;
+}
+
+/** URLs of the scripts loaded by the page, which may contain the entry chunk. */
+export function getPageScriptUrls(): string[] {
+  const urls: string[] = [];
+  if (typeof document !== 'undefined') {
+    for (const script of Array.from(document.scripts)) {
+      if (script.src) urls.push(script.src);
+    }
+  }
+  if (typeof performance !== 'undefined' && typeof performance.getEntriesByType === 'function') {
+    for (const entry of performance.getEntriesByType('resource')) {
+      const { initiatorType } = entry as PerformanceResourceTiming;
+      if (initiatorType === 'script' && urls.indexOf(entry.name) < 0) urls.push(entry.name);
+    }
+  }
+  return urls;
+}
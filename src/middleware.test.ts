@@ -0,0 +1,159 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createSourceMapMiddleware, createSourceRootMiddleware } from './middleware';
+
+function request(url: string) {
+  return { url } as IncomingMessage;
+}
+
+function response() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    end(body: string) {
+      res.body = body;
+    },
+  };
+  return res;
+}
+
+describe('createSourceMapMiddleware', () => {
+  let root: string;
+
+  beforeAll(() => {
+    // Real path, so symlinked temp directories (macOS) match the served paths
+    root = realpathSync(mkdtempSync(path.join(tmpdir(), 'show-component-')));
+    const map = { version: 3, sources: ['../src/page.tsx'], names: [], mappings: 'AAAA' };
+    writeFileSync(path.join(root, 'linked.js'), 'x;\n//# sourceMappingURL=maps/linked.js.map');
+    mkdirSync(path.join(root, 'maps'));
+    writeFileSync(path.join(root, 'maps', 'linked.js.map'), JSON.stringify(map));
+    const inline = Buffer.from(JSON.stringify(map)).toString('base64');
+    writeFileSync(
+      path.join(root, 'inline.js'),
+      `x;\n//# sourceMappingURL=data:application/json;base64,${inline}`
+    );
+    writeFileSync(path.join(root, 'plain.js'), 'x;');
+
+    // `app/` is the allowed root below; everything else in `root` is outside it
+    mkdirSync(path.join(root, 'app'));
+    writeFileSync(
+      path.join(root, 'app', 'escaping.js'),
+      'x;\n//# sourceMappingURL=../maps/linked.js.map'
+    );
+    writeFileSync(path.join(root, 'app', 'symlinked-map.js'), 'x;');
+    symlinkSync(
+      path.join(root, 'maps', 'linked.js.map'),
+      path.join(root, 'app', 'symlinked-map.js.map')
+    );
+    symlinkSync(path.join(root, 'linked.js'), path.join(root, 'app', 'symlinked.js'));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  async function get(file: string, options = { roots: [root] }) {
+    const res = response();
+    await createSourceMapMiddleware(options)(
+      request(`/__show-component/source-map?file=${encodeURIComponent(file)}`),
+      res as unknown as ServerResponse
+    );
+    return res;
+  }
+
+  it('serves linked maps with sources made absolute', async () => {
+    const res = await get(path.join(root, 'linked.js'));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(res.body).sources).toEqual([
+      pathToFileURL(path.join(root, 'src', 'page.tsx')).href,
+    ]);
+  });
+
+  it('serves inline maps', async () => {
+    const res = await get(path.join(root, 'inline.js'));
+
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.body).sources).toEqual([
+      pathToFileURL(path.resolve(root, '..', 'src', 'page.tsx')).href,
+    ]);
+  });
+
+  it('answers 404 for files without a source map or missing files', async () => {
+    expect((await get(path.join(root, 'plain.js'))).statusCode).toBe(404);
+    expect((await get(path.join(root, 'missing.js'))).statusCode).toBe(404);
+  });
+
+  it('refuses files outside the allowed roots', async () => {
+    const res = await get(path.join(root, 'linked.js'), { roots: [path.join(root, 'maps')] });
+    expect(res.statusCode).toBe(403);
+  });
+
+  it('refuses map files outside the allowed roots', async () => {
+    const options = { roots: [path.join(root, 'app')] };
+    for (const file of ['escaping.js', 'symlinked-map.js']) {
+      const res = await get(path.join(root, 'app', file), options);
+      expect(res.statusCode).toBe(404);
+      expect(res.body).not.toContain('mappings');
+    }
+  });
+
+  it('refuses symlinks to files outside the allowed roots', async () => {
+    const res = await get(path.join(root, 'app', 'symlinked.js'), {
+      roots: [path.join(root, 'app')],
+    });
+    expect(res.statusCode).toBe(403);
+  });
+
+  it('passes other requests on', async () => {
+    const next = vi.fn();
+    const res = response();
+    await createSourceMapMiddleware()(
+      request('/src/App.tsx'),
+      res as unknown as ServerResponse,
+      next
+    );
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(0);
+  });
+});
+
+describe('createSourceRootMiddleware', () => {
+  it('answers the source root probe', () => {
+    const res = response();
+    createSourceRootMiddleware({ sourceRoot: '/Users/me/app/' })(
+      request('/__show-component/source-root'),
+      res as unknown as ServerResponse
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(res.body)).toEqual({ sourceRoot: path.resolve('/Users/me/app') });
+  });
+
+  it('defaults to the working directory', () => {
+    const res = response();
+    createSourceRootMiddleware()(
+      request('/__show-component/source-root?t=1'),
+      res as unknown as ServerResponse
+    );
+    expect(JSON.parse(res.body)).toEqual({ sourceRoot: process.cwd() });
+  });
+
+  it('passes other requests on', () => {
+    const next = vi.fn();
+    const res = response();
+    createSourceRootMiddleware()(request('/src/App.tsx'), res as unknown as ServerResponse, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { readFile, realpath } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import * as convertSourceMap from 'convert-source-map';
+import { DEFAULT_SOURCE_MAP_ENDPOINT } from './lib/rsc-endpoint';
+import { SOURCE_ROOT_ENDPOINT } from './lib/source-root-discovery';
+
+// ─── Source map middleware ──────────────────────────────────────────────────
+// Dev-server middleware (Connect / Express / Vite `server.middlewares`) that
+// serves the source map of a server file, for React Server Component frames
+// the browser can't fetch itself:
+//
+//   GET /__show-component/source-map?file=/Users/me/app/dist/rsc/page.js
+//
+// Pairs with `configureRscEndpoint(fileSourceMapEndpoint())` in the browser.
+// The map's `sources` are rewritten to absolute `file://` URLs, since the
+// browser can't resolve paths relative to a file on the server's disk.
+
+export interface SourceMapMiddlewareOptions {
+  /**
+   * URL path the middleware answers on.
+   * @default '/__show-component/source-map'
+   */
+  path?: string;
+  /**
+   * Directories whose files may be read — requests for anything outside
+   * them are refused, and so are map files outside them.  Symlinks are
+   * followed before the check.
+   * @default [process.cwd()]
+   */
+  roots?: string[];
+}
+
+type NextFunction = (error?: unknown) => void;
+
+function isInside(file: string, root: string): boolean {
+  const relative = path.relative(root, file);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/** Resolves symlinks in `file`; `null` when its real path lies outside `roots`. */
+async function realPathInside(file: string, roots: string[]): Promise<string | null> {
+  const real = await realpath(file);
+  return roots.some((root) => isInside(real, root)) ? real : null;
+}
+
+function hasScheme(source: string): boolean {
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(source) && !/^[a-zA-Z]:[\\/]/.test(source);
+}
+
+interface LoadedSourceMap {
+  map: Record<string, unknown>;
+  /** Directory the map's relative `sources` are resolved against. */
+  dir: string;
+}
+
+/**
+ * Reads the source map of `file`: an inline `data:` map, a map file named by
+ * its `sourceMappingURL` comment, or `<file>.map`.  Returns `null` when
+ * there is none — map files outside `roots` count as missing.
+ */
+async function readSourceMap(file: string, roots: string[]): Promise<LoadedSourceMap | null> {
+  const content = await readFile(file, 'utf8');
+
+  const inline = convertSourceMap.fromSource(content);
+  if (inline) return { map: inline.toObject(), dir: path.dirname(file) };
+
+  let mapFile = `${file}.map`;
+  const readMapFile = async (candidate: string) => {
+    const real = await realPathInside(candidate, roots);
+    if (!real) throw new Error(`${candidate} is outside the allowed roots`);
+    mapFile = real;
+    return readFile(real, 'utf8');
+  };
+  try {
+    const linked = await convertSourceMap.fromMapFileSource(content, (filename) =>
+      readMapFile(path.resolve(path.dirname(file), filename))
+    );
+    const map = linked ? linked.toObject() : JSON.parse(await readMapFile(mapFile));
+    return { map, dir: path.dirname(mapFile) };
+  } catch {
+    return null;
+  }
+}
+
+/** Rewrites relative `sources` to absolute `file://` URLs. */
+function absolutizeSources(map: Record<string, unknown>, mapDir: string): void {
+  const sources = map.sources;
+  if (!Array.isArray(sources)) return;
+  const sourceRoot = typeof map.sourceRoot === 'string' ? map.sourceRoot : '';
+  if (hasScheme(sourceRoot)) return;
+
+  map.sources = sources.map((source) =>
+    typeof source !== 'string' || hasScheme(source)
+      ? source
+      : pathToFileURL(path.resolve(mapDir, sourceRoot, source)).href
+  );
+  map.sourceRoot = undefined;
+}
+
+/**
+ * Creates the middleware.  Requests for other paths are passed on with
+ * `next()`; unknown files and files without a source map get a 404.
+ */
+export function createSourceMapMiddleware(options: SourceMapMiddlewareOptions = {}) {
+  const endpoint = options.path ?? DEFAULT_SOURCE_MAP_ENDPOINT;
+  const roots = (options.roots ?? [process.cwd()]).map((root) => path.resolve(root));
+  // Symlinks are resolved in the roots too, once — a root that doesn't
+  // exist yet is kept as is
+  let realRoots: Promise<string[]> | undefined;
+  const getRealRoots = () => {
+    if (!realRoots) {
+      realRoots = Promise.all(roots.map((root) => realpath(root).catch(() => root)));
+    }
+    return realRoots;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== endpoint) {
+      next?.();
+      return;
+    }
+
+    const send = (status: number, body: string, contentType = 'text/plain') => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', contentType);
+      res.end(body);
+    };
+
+    const file = url.searchParams.get('file');
+    if (!file) return send(400, 'Missing "file" parameter');
+    const resolvedFile = path.resolve(file);
+    if (!roots.some((root) => isInside(resolvedFile, root))) {
+      return send(403, `${resolvedFile} is outside the allowed roots`);
+    }
+
+    const allowedRoots = await getRealRoots();
+    let realFile: string | null;
+    try {
+      realFile = await realPathInside(resolvedFile, allowedRoots);
+    } catch {
+      return send(404, `Cannot read ${resolvedFile}`);
+    }
+    // A symlink inside the roots pointing outside them
+    if (!realFile) return send(403, `${resolvedFile} is outside the allowed roots`);
+
+    let sourceMap: LoadedSourceMap | null;
+    try {
+      sourceMap = await readSourceMap(realFile, allowedRoots);
+    } catch {
+      return send(404, `Cannot read ${resolvedFile}`);
+    }
+    if (!sourceMap) return send(404, `No source map for ${resolvedFile}`);
+
+    absolutizeSources(sourceMap.map, sourceMap.dir);
+    send(200, JSON.stringify(sourceMap.map), 'application/json');
+  };
+}
+
+// ─── Source root middleware ─────────────────────────────────────────────────
+// Answers the source root probe <ShowComponent> sends on mount when no root
+// is configured:
+//
+//   GET /__show-component/source-root  →  { "sourceRoot": "/Users/me/app" }
+
+export interface SourceRootMiddlewareOptions {
+  /**
+   * URL path the middleware answers on.
+   * @default '/__show-component/source-root'
+   */
+  path?: string;
+  /**
+   * Absolute path sources are resolved against — usually the project root.
+   * @default process.cwd()
+   */
+  sourceRoot?: string;
+}
+
+/** Creates the middleware.  Requests for other paths are passed on with `next()`. */
+export function createSourceRootMiddleware(options: SourceRootMiddlewareOptions = {}) {
+  const endpoint = options.path ?? SOURCE_ROOT_ENDPOINT;
+  const body = JSON.stringify({ sourceRoot: path.resolve(options.sourceRoot ?? process.cwd()) });
+
+  return (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== endpoint) {
+      next?.();
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(body);
+  };
+}
@@ -0,0 +1,105 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SourceMapGenerator } from '@jridgewell/source-map';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { configureSourceLoader } from './lib/source-loader';
+import {
+  clearCaches,
+  resolveLocation,
+  resolveLocationDetailed,
+} from './lib/source-location-resolver';
+import { createNodeSourceLoader } from './node';
+
+describe('createNodeSourceLoader', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'show-component-'));
+    const generator = new SourceMapGenerator({ file: 'page.js' });
+    generator.addMapping({
+      generated: { line: 1, column: 0 },
+      original: { line: 12, column: 4 },
+      source: '../../src/routes/page.tsx',
+      name: 'Page',
+    });
+    mkdirSync(path.join(root, 'dist', 'server'), { recursive: true });
+    writeFileSync(
+      path.join(root, 'dist', 'server', 'page.js'),
+      'export function Page(){}\n//# sourceMappingURL=page.js.map'
+    );
+    writeFileSync(path.join(root, 'dist', 'server', 'page.js.map'), generator.toString());
+    writeFileSync(path.join(root, 'dist', 'server', 'unmapped.js'), 'export function Page(){}');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    configureSourceLoader(undefined);
+    clearCaches();
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves frames of files on disk without fetching', async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal('fetch', mockFetch);
+    configureSourceLoader(createNodeSourceLoader({ roots: [root] }));
+    const file = path.join(root, 'dist', 'server', 'page.js');
+
+    const result = await resolveLocation(`    at Page (${file}:1:8)`);
+
+    expect(result).toMatchObject({
+      source: path.join(root, 'src', 'routes', 'page.tsx'),
+      line: 12,
+      column: 4,
+      name: 'Page',
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('resolves file:// frames of ES modules', async () => {
+    configureSourceLoader(createNodeSourceLoader());
+    const url = pathToFileURL(path.join(root, 'dist', 'server', 'page.js')).href;
+
+    const result = await resolveLocation(`    at Page (${url}:1:8)`);
+
+    expect(result?.source).toBe(path.join(root, 'src', 'routes', 'page.tsx'));
+  });
+
+  it('reports files without a source map', async () => {
+    configureSourceLoader(createNodeSourceLoader());
+    const file = path.join(root, 'dist', 'server', 'unmapped.js');
+
+    const result = await resolveLocationDetailed(`    at Page (${file}:1:8)`);
+
+    expect(result).toMatchObject({ ok: false, failure: { reason: 'no-source-map' } });
+  });
+
+  it('refuses files outside the allowed roots', async () => {
+    configureSourceLoader(createNodeSourceLoader({ roots: [path.join(root, 'src')] }));
+    const file = path.join(root, 'dist', 'server', 'page.js');
+
+    const result = await resolveLocationDetailed(`    at Page (${file}:1:8)`);
+
+    expect(result).toMatchObject({
+      ok: false,
+      failure: {
+        reason: 'fetch-failed',
+        message: expect.stringContaining('outside the allowed roots'),
+      },
+    });
+  });
+
+  it('only loads absolute paths and file:// URLs', () => {
+    const loader = createNodeSourceLoader();
+
+    expect(loader.canLoad('/app/dist/page.js')).toBe(true);
+    expect(loader.canLoad('file:///app/dist/page.js')).toBe(true);
+    expect(loader.canLoad('http://localhost:3000/app.js')).toBe(false);
+    expect(loader.canLoad('//cdn.example.com/app.js')).toBe(false);
+    expect(loader.canLoad('node:internal/modules/cjs/loader')).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { LoadedSource, SourceLoader } from './lib/source-loader';
+
+// ─── Node source loader ─────────────────────────────────────────────────────
+// A `SourceLoader` that reads chunks and source maps from disk, for resolving
+// stack frames of code running in Node — SSR error logs, Vitest reporters,
+// build scripts:
+//
+//   import { configureSourceLoader, resolveLocation } from 'show-component';
+//   import { createNodeSourceLoader } from 'show-component/node';
+//
+//   configureSourceLoader(createNodeSourceLoader());
+//   await resolveLocation('    at Page (/app/dist/server/page.js:12:7)');
+//
+// Node frames name files by absolute path (`/app/dist/page.js`,
+// `C:\app\dist\page.js`) or, for ES modules, by `file://` URL.  Loaded files
+// are reported as `file://` URLs, so `sourceMappingURL` comments and relative
+// `sources` resolve against the chunk's directory.
+//
+// Stacks captured on another machine (QA logs, production error reports)
+// name chunks by URL, or by paths that don't exist locally.  With `buildDir`
+// those are looked up in the local build output instead.
+
+export interface NodeSourceLoaderOptions {
+  /**
+   * Directories whose files may be read — loads of anything outside them are
+   * refused.  By default any file can be read.
+   */
+  roots?: string[];
+  /**
+   * Build output directory to look chunks up in when their URL isn't a local
+   * file: the longest trailing part of the URL path that exists below it is
+   * read, e.g. `https://qa.example.com/_next/static/chunks/app.js` →
+   * `<buildDir>/static/chunks/app.js`.
+   */
+  buildDir?: string;
+}
+
+function isInside(file: string, root: string): boolean {
+  const relative = path.relative(root, file);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+function toFilePath(url: string): string | null {
+  if (url.startsWith('file://')) return fileURLToPath(url);
+  // Absolute paths, but not protocol-relative URLs
+  if (url.startsWith('//')) return null;
+  return path.isAbsolute(url) ? path.resolve(url) : null;
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/** Finds the file below `buildDir` matching the longest trailing part of the URL path. */
+async function findInBuildDir(buildDir: string, url: string): Promise<string | null> {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url, 'file:///').pathname);
+  } catch {
+    return null;
+  }
+  const segments = pathname.split('/').filter(Boolean);
+  for (let start = 0; start < segments.length; start++) {
+    const candidate = path.join(buildDir, ...segments.slice(start));
+    if (await isFile(candidate)) return candidate;
+  }
+  return null;
+}
+
+/** Creates a loader that reads stack frame files and their source maps from disk. */
+export function createNodeSourceLoader(options: NodeSourceLoaderOptions = {}): SourceLoader {
+  const roots = options.roots?.map((root) => path.resolve(root));
+  const buildDir = options.buildDir && path.resolve(options.buildDir);
+
+  return {
+    canLoad: (url) => toFilePath(url) !== null || (!!buildDir && /^https?:\/\//.test(url)),
+
+    async load(url, _kind, limits): Promise<LoadedSource> {
+      let file = toFilePath(url);
+      if (buildDir && !(file && (await isFile(file)))) {
+        file = await findInBuildDir(buildDir, url);
+        if (!file) throw new Error(`No file matching ${url} in ${buildDir}`);
+      }
+      if (!file) throw new Error(`Not a file path or file:// URL: ${url}`);
+      if (roots && !roots.some((root) => isInside(file, root))) {
+        throw new Error(`${file} is outside the allowed roots`);
+      }
+
+      const content = await readFile(file, { encoding: 'utf8', signal: limits?.signal });
+      return { content, url: pathToFileURL(file).href };
+    },
+  };
+}
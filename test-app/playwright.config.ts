@@ -32,12 +32,26 @@ export default defineConfig({
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
     },
+    // The same harness against the webpack build (webpack.config.js), whose
+    // `eval-source-map` frames are `webpack-internal:///` URLs
+    {
+      name: 'chromium-webpack',
+      use: { ...devices['Desktop Chrome'], baseURL: 'http://localhost:5201' },
+    },
   ],
 
-  webServer: {
-    command: 'npx vite --port 5199',
-    url: 'http://localhost:5199',
-    reuseExistingServer: !process.env.CI,
-    timeout: 30_000,
-  },
+  webServer: [
+    {
+      command: 'npx vite --port 5199',
+      url: 'http://localhost:5199',
+      reuseExistingServer: !process.env.CI,
+      timeout: 30_000,
+    },
+    {
+      command: 'npx webpack serve',
+      url: 'http://localhost:5201',
+      reuseExistingServer: !process.env.CI,
+      timeout: 60_000,
+    },
+  ],
 });
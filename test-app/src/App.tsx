@@ -1,6 +1,6 @@
 import React, { lazy, Suspense, useCallback } from 'react';
 import { ShowComponent } from 'show-component';
-import type { NavigationEvent } from 'show-component';
+import type { HotContext, NavigationEvent } from 'show-component';
 import { BasicButton, ArrowButton, CardWithContent } from './scenarios/BasicComponents';
 import { ForwardRefInput, MemoizedCard, DisplayNameComponent } from './scenarios/WrappedComponents';
 import { DeepChainRoot } from './scenarios/DeepChain';
@@ -19,6 +19,10 @@ declare global {
   interface Window {
     __sc_nav_events: NavigationEvent[];
   }
+  interface ImportMeta {
+    /** webpack's HMR API, set under `npm run dev:webpack`. */
+    readonly webpackHot?: HotContext;
+  }
 }
 window.__sc_nav_events = [];
 
@@ -72,10 +76,13 @@ export function App() {
     <>
       {/* The library's invisible overlay — enables Alt+Click / Alt+Shift+Click */}
       {/* sourceRoot converts URL paths like /src/scenarios/Foo.tsx into
-          absolute filesystem paths the editor can open. */}
+          absolute filesystem paths the editor can open.  hot evicts cached
+          source maps of edited files after each hot update — Vite's
+          import.meta.hot, or webpack's import.meta.webpackHot. */}
       <ShowComponent
         onNavigate={handleNavigate}
         sourceRoot="/Users/laplace/Projects/show-component/test-app"
+        hot={import.meta.hot ?? import.meta.webpackHot}
       />
 
       <header className="page-header">
@@ -1,7 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { configureSourceMapLocator, conventionalSourceMapLocator } from 'show-component';
 import { App } from './App';
 
+// `npm run preview:hidden` builds without sourceMappingURL comments.  Only
+// that build gets the locator, so the dev servers the Playwright projects run
+// against keep resolving in the source map worker.  (`import.meta.env` is
+// Vite's — the webpack build leaves it undefined.)
+if (import.meta.env?.VITE_SOURCEMAP === 'hidden') {
+  configureSourceMapLocator({ locate: conventionalSourceMapLocator });
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,73 @@
+// webpack build of the test app, for the `webpack-eval` resolver strategy.
+//
+// `devtool: 'eval-source-map'` (webpack's development default) evaluates
+// every module from a string with an inline source map, so component stacks
+// point at `webpack-internal:///./src/…` URLs instead of fetchable chunks.
+// Run with `npm run dev:webpack`; the Playwright "chromium-webpack" project
+// runs the same harness against it.
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import HtmlWebpackPlugin from 'html-webpack-plugin';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default {
+  mode: 'development',
+  devtool: 'eval-source-map',
+  entry: { main: './src/main.tsx' },
+
+  output: {
+    path: path.resolve(root, 'dist-webpack'),
+    publicPath: '/',
+    clean: true,
+  },
+
+  resolve: {
+    extensions: ['.tsx', '.ts', '.js'],
+    alias: {
+      // Same as the Vite config: test against the live library source
+      'show-component': path.resolve(root, '../src'),
+    },
+    // Packages imported by the library source resolve to the test-app's
+    // node_modules, like Vite's `resolve.dedupe`
+    modules: [path.resolve(root, 'node_modules'), 'node_modules'],
+  },
+
+  module: {
+    rules: [
+      {
+        test: /\.tsx?$/,
+        include: [path.resolve(root, 'src'), path.resolve(root, '../src')],
+        loader: 'esbuild-loader',
+        options: { loader: 'tsx', target: 'es2020', jsx: 'automatic' },
+      },
+    ],
+  },
+
+  plugins: [
+    new HtmlWebpackPlugin({
+      title: 'show-component — Test Harness (webpack)',
+      templateContent: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>show-component — Test Harness (webpack)</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <link rel="stylesheet" href="/src/styles.css" />
+</head>
+<body>
+  <div id="root"></div>
+</body>
+</html>`,
+    }),
+  ],
+
+  devServer: {
+    port: 5201,
+    // Serves /src/styles.css like the Vite dev server
+    static: { directory: root, watch: false },
+    hot: true,
+  },
+};
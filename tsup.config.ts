@@ -7,6 +7,12 @@ export default defineConfig({
     // (and its transitive deps) in a separate chunk that the consumer's
     // bundler can drop entirely in production.
     ShowComponent: 'src/ShowComponent.tsx',
+    // Node-only dev-server middleware, published as `show-component/middleware`
+    middleware: 'src/middleware.ts',
+    // Node-only filesystem source loader, published as `show-component/node`
+    node: 'src/node.ts',
+    // `show-component` command-line symbolicator (package.json `bin`)
+    bin: 'src/bin.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,